@@ -1,17 +1,34 @@
 
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { Documentation, Chapter, AudioConfig } from './types';
-import { generateStudyPlan, generateChapterSummary } from './services/geminiService';
+import { Documentation, Chapter, AudioConfig, StoredStudyPlan, PlanProgress, PlanGenerationPhase, VoiceProfile, PlanLanguage, ListeningMode, SleepTimer, ChapterStatus } from './types';
+import { getAIProvider } from './services/aiProvider';
 import { generateAndDownloadMarkdown, generateAndDownloadHtml, generateAndPrint, downloadAsFile } from './utils/fileUtils';
+import { extractFileContent } from './utils/ingestion';
+import { savePlan, getPlan, saveChapterSummary, updatePlan } from './utils/db';
 import { useAudioPlayer } from './hooks/useAudioPlayer';
+import { useAudioPreparation } from './hooks/useAudioPreparation';
+import { useStudyProgress } from './hooks/useStudyProgress';
 import { AudioPlayerComponent } from './components/AudioPlayer';
+import { PlanLibrary } from './components/PlanLibrary';
+import { SettingsPanel } from './components/SettingsPanel';
+import { AudioExportDialog } from './components/AudioExportDialog';
+import { AudioPreparationStatus } from './components/AudioPreparationStatus';
+import { VoiceProfileDialog, VoiceProfileScope } from './components/VoiceProfileDialog';
+import { QuizDialog } from './components/QuizDialog';
+import { MockExamDialog } from './components/MockExamDialog';
+import { FlashcardReviewDialog } from './components/FlashcardReviewDialog';
+import { StudyDashboardDialog } from './components/StudyDashboardDialog';
+import { planToExportSections, AudioExportSection } from './utils/audioExport';
+import { detectPlanLanguage, loadLanguageVoiceProfiles, saveLanguageVoiceProfiles } from './utils/voiceProfiles';
+import { CERTIFICATION_EXAMS, DEFAULT_EXAM_FORMAT, findExamFormat } from './utils/mockExam';
+import { CHAPTER_STATUS_LABELS } from './utils/studyProgress';
 import {
     SparklesIcon, LoaderIcon, PlayIcon,
     MarkdownIcon, HtmlIcon, PdfIcon, ChevronLeftIcon, ChevronRightIcon,
     SearchIcon, CopyIcon, CheckIcon, DocumentTextIcon,
     ArrowsPointingOutIcon, ArrowsPointingInIcon, ReplyIcon,
     UploadCloudIcon, XCircleIcon, FileIcon, WordIcon, AudioIcon, StarIcon,
-    Cog6ToothIcon, LinkIcon
+    Cog6ToothIcon, LinkIcon, BookOpenIcon, StopIcon, CloudArrowDownIcon, VolumeUpIcon, AcademicCapIcon, RectangleStackIcon, ChartBarIcon
 } from './components/icons';
 
 
@@ -19,12 +36,11 @@ declare const showdown: any;
 
 type CopyStatus = 'idle' | 'copied';
 
-const AVAILABLE_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
-const MOCK_EXAMS: { [key: string]: string } = {
-    'AZ-104': 'Microsoft Certified: Azure Administrator Associate',
-    'CCNA 200-301': 'Cisco Certified Network Associate',
-    'AWS-SAA-C03': 'AWS Certified Solutions Architect – Associate',
-    'GCP-ACE': 'Google Cloud Certified - Associate Cloud Engineer'
+const PLAN_PHASE_LABELS: Record<PlanGenerationPhase, string> = {
+    researching: 'Analisando seus materiais e pesquisando a web...',
+    structuring: 'Estruturando o plano de estudo...',
+    writing: 'Escrevendo os tópicos...',
+    merging: 'Mesclando as partes do plano...',
 };
 
 interface FlattenedChapter {
@@ -42,6 +58,24 @@ interface DetailedSearchResult {
     globalIndex: number;
 }
 
+// Tópicos e subtópicos (em qualquer profundidade) na ordem do sumário; `originalIndex` é a posição nessa lista.
+const flattenChapters = (chapters: Chapter[]): FlattenedChapter[] => {
+    const flatten = (chapters: Chapter[], level: number, parentIdx: number | null, result: Omit<FlattenedChapter, 'originalIndex'>[] = []): Omit<FlattenedChapter, 'originalIndex'>[] => {
+        chapters.forEach(ch => {
+            const currentIndex = result.length;
+            const isParent = ch.subChapters && ch.subChapters.length > 0;
+            result.push({ chapter: ch, level, parentIndex: parentIdx, isParent });
+            if (isParent) {
+                flatten(ch.subChapters, level + 1, currentIndex, result);
+            }
+        });
+        return result;
+    };
+    return flatten(chapters, 0, null).map((item, index) => ({ ...item, originalIndex: index }));
+};
+
+const toFileName = (text: string) => text.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
 const getFileIcon = (fileName: string) => {
     const extension = fileName.split('.').pop()?.toLowerCase() || '';
     switch (extension) {
@@ -50,6 +84,7 @@ const getFileIcon = (fileName: string) => {
         case 'md':
             return <MarkdownIcon className="w-6 h-6 text-gray-400" />;
         case 'html':
+        case 'htm':
             return <HtmlIcon className="w-6 h-6 text-orange-400" />;
         case 'doc':
         case 'docx':
@@ -59,10 +94,43 @@ const getFileIcon = (fileName: string) => {
     }
 };
 
+// Fração já ouvida do tópico, exibida sob o título no sumário.
+const ListenedProgressBar = ({ fraction }: { fraction: number }) => (
+    <span className="block mt-1.5 h-1 rounded-full bg-gray-700/70 overflow-hidden" title={fraction >= 1 ? 'Tópico ouvido' : `${Math.round(fraction * 100)}% ouvido`}>
+        <span className={`block h-full rounded-full ${fraction >= 1 ? 'bg-green-400' : 'bg-indigo-300'}`} style={{ width: `${Math.round(fraction * 100)}%` }} />
+    </span>
+);
+
+const STATUS_DOT_COLORS: Record<ChapterStatus, string> = {
+    not_started: 'bg-gray-600',
+    reading: 'bg-yellow-400',
+    reviewed: 'bg-indigo-400',
+    mastered: 'bg-green-400',
+};
+
+// Etapa de estudo do tópico, exibida ao lado do título no sumário.
+const ChapterStatusDot = ({ status }: { status: ChapterStatus }) => (
+    <span className={`inline-block w-2 h-2 rounded-full mr-2 align-middle ${STATUS_DOT_COLORS[status]}`} title={CHAPTER_STATUS_LABELS[status]} />
+);
+
 export default function App() {
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
     const [doc, setDoc] = useState<Documentation | null>(null); // 'doc' agora é o plano de estudo
+    const [currentPlanId, setCurrentPlanId] = useState<string | null>(null);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [planVoiceProfile, setPlanVoiceProfile] = useState<VoiceProfile | null>(null);
+    const [languageVoiceProfiles, setLanguageVoiceProfiles] = useState<Partial<Record<PlanLanguage, VoiceProfile>>>(loadLanguageVoiceProfiles);
+    const [isVoiceDialogOpen, setIsVoiceDialogOpen] = useState(false);
+    const [audioExport, setAudioExport] = useState<{ title: string; sections: AudioExportSection[]; fileName: string } | null>(null);
+    // Tópico cujo questionário está aberto.
+    const [quizChapterIndex, setQuizChapterIndex] = useState<number | null>(null);
+    const [isMockExamOpen, setIsMockExamOpen] = useState(false);
+    const [isFlashcardsOpen, setIsFlashcardsOpen] = useState(false);
+    const [isDashboardOpen, setIsDashboardOpen] = useState(false);
+    const [planProgress, setPlanProgress] = useState<PlanProgress | null>(null);
+    const planAbortControllerRef = useRef<AbortController | null>(null);
+    const summaryAbortControllerRef = useRef<AbortController | null>(null);
     const [selectedChapterIndex, setSelectedChapterIndex] = useState<number>(0);
     const [isFocusMode, setIsFocusMode] = useState<boolean>(false);
     const [searchQuery, setSearchQuery] = useState<string>('');
@@ -97,21 +165,7 @@ export default function App() {
         tables: true
     })).current;
 
-    const flattenedChapters = useMemo((): FlattenedChapter[] => {
-        if (!doc) return [];
-        const flatten = (chapters: Chapter[], level: number, parentIdx: number | null, result: Omit<FlattenedChapter, 'originalIndex'>[] = []): Omit<FlattenedChapter, 'originalIndex'>[] => {
-            chapters.forEach(ch => {
-                const currentIndex = result.length;
-                const isParent = ch.subChapters && ch.subChapters.length > 0;
-                result.push({ chapter: ch, level, parentIndex: parentIdx, isParent });
-                if (isParent) {
-                    flatten(ch.subChapters, level + 1, currentIndex, result);
-                }
-            });
-            return result;
-        };
-        return flatten(doc.chapters, 0, null).map((item, index) => ({ ...item, originalIndex: index }));
-    }, [doc]);
+    const flattenedChapters = useMemo((): FlattenedChapter[] => (doc ? flattenChapters(doc.chapters) : []), [doc]);
 
     // FIX: Moved detailedSearchResults before visibleChapters as it's a dependency.
     const detailedSearchResults = useMemo((): DetailedSearchResult[] => {
@@ -178,8 +232,31 @@ export default function App() {
     }, [searchQuery]);
 
     const autoPlayOnChapterChangeRef = useRef(false);
+    // Parágrafo a partir do qual a reprodução automática começa, ao continuar de onde parou.
+    const resumeParagraphRef = useRef<number | null>(null);
+    // Oferece "continuar de onde parou" ao reabrir um plano, até que algo comece a tocar.
+    const [showResumeOffer, setShowResumeOffer] = useState(false);
+    // Modo de escuta e timer são lidos por refs em `onAudioEnded`, que é capturado quando o áudio começa a tocar.
+    const [listeningMode, setListeningMode] = useState<ListeningMode>('sequential');
+    const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+    const listeningModeRef = useRef(listeningMode);
+    listeningModeRef.current = listeningMode;
+    const sleepTimerRef = useRef(sleepTimer);
+    sleepTimerRef.current = sleepTimer;
+    const playChapterSummaryRef = useRef<(chapterIndex: number) => void>(() => {});
     
-    const { audioState, loadAndPlay, playPause, stopAudio, seekTo, handleVolumeChange, handleMuteToggle, handleSpeedChange } = useAudioPlayer();
+    const planLanguage = useMemo(() => (doc ? detectPlanLanguage(doc) : null), [doc]);
+    const certificationExam = useMemo(() => (doc ? findExamFormat(doc.title) : null), [doc]);
+    // Perfil de voz do plano ou, na falta dele, do idioma do plano.
+    const activeVoiceProfile = planVoiceProfile ?? (planLanguage ? languageVoiceProfiles[planLanguage] : undefined) ?? null;
+
+    const { audioState, loadAndPlay, playPause, stopAudio, pauseAudio, seekTo, setTrackNavigation, resumePosition, listenedProgress, handleVolumeChange, handleMuteToggle, handleSpeedChange, audioConfig, defaultVoiceProfile, setAudioConfig } = useAudioPlayer({
+        planId: currentPlanId,
+        voiceProfile: activeVoiceProfile,
+        planTitle: doc?.title,
+    });
+    const { preparationState, startPreparation, cancelPreparation, dismissPreparation } = useAudioPreparation();
+    const { studyProgress, setChapterStatus } = useStudyProgress({ planId: currentPlanId, chapterIndex: doc ? selectedChapterIndex : null });
 
     const onAudioEnded = useCallback(() => {
         const isPlayingSummary = audioState.trackInfo.chapterTitle?.startsWith('Resumo:');
@@ -187,7 +264,22 @@ export default function App() {
         const currentFlatIndex = flattenedChapters.findIndex(fc => fc.originalIndex === selectedChapterIndex);
         if (currentFlatIndex === -1) return;
 
-        if (isPlayingSummary) {
+        if (sleepTimerRef.current?.type === 'endOfChapter') {
+            setSleepTimer(null);
+            return;
+        }
+
+        if (listeningModeRef.current === 'repeatChapter') {
+            const currentChapter = flattenedChapters[currentFlatIndex];
+            if (isPlayingSummary) {
+                playChapterSummaryRef.current(selectedChapterIndex);
+            } else {
+                loadAndPlay(currentChapter.chapter.content, selectedChapterIndex, -1, onAudioEnded, currentChapter.chapter.title);
+            }
+            return;
+        }
+
+        if (isPlayingSummary && listeningModeRef.current !== 'summariesOnly') {
             const currentChapter = flattenedChapters[currentFlatIndex];
             loadAndPlay(
                 currentChapter.chapter.content,
@@ -211,7 +303,13 @@ export default function App() {
         if (autoPlayOnChapterChangeRef.current && doc) {
             autoPlayOnChapterChangeRef.current = false;
             const currentChapter = flattenedChapters.find(fc => fc.originalIndex === selectedChapterIndex);
-            if (currentChapter) {
+            const resumeParagraph = resumeParagraphRef.current;
+            resumeParagraphRef.current = null;
+            if (currentChapter && resumeParagraph !== null) {
+                loadAndPlay(currentChapter.chapter.content, selectedChapterIndex, resumeParagraph, onAudioEnded, currentChapter.chapter.title);
+            } else if (currentChapter && listeningModeRef.current === 'summariesOnly') {
+                playChapterSummaryRef.current(selectedChapterIndex);
+            } else if (currentChapter) {
                  loadAndPlay(
                     currentChapter.chapter.content,
                     selectedChapterIndex,
@@ -225,6 +323,25 @@ export default function App() {
     
     const selectedChapterData = flattenedChapters.find(fc => fc.originalIndex === selectedChapterIndex);
 
+    useEffect(() => {
+        if (audioState.status !== 'idle') setShowResumeOffer(false);
+    }, [audioState.status]);
+
+    const handleResumePlayback = () => {
+        setShowResumeOffer(false);
+        const chapterData = resumePosition && flattenedChapters.find(fc => fc.originalIndex === resumePosition.chapterIndex);
+        if (!resumePosition || !chapterData) return;
+        if (chapterData.parentIndex !== null) setExpandedParentIndex(chapterData.parentIndex);
+        if (chapterData.originalIndex === selectedChapterIndex) {
+            loadAndPlay(chapterData.chapter.content, chapterData.originalIndex, resumePosition.paragraphIndex, onAudioEnded, chapterData.chapter.title);
+            return;
+        }
+        // O tópico muda primeiro, para que `onAudioEnded` já se refira a ele quando a narração terminar.
+        autoPlayOnChapterChangeRef.current = true;
+        resumeParagraphRef.current = resumePosition.paragraphIndex;
+        setSelectedChapterIndex(chapterData.originalIndex);
+    };
+
     // Hoisted: handleChapterSelect must be defined before any useEffect using it
     const handleChapterSelect = useCallback((index: number) => {
         const chapter = flattenedChapters.find(fc => fc.originalIndex === index);
@@ -290,7 +407,9 @@ export default function App() {
         const isPlayingSummary = audioState.trackInfo.chapterTitle?.startsWith('Resumo:');
         const currentChapter = flattenedChapters.find(fc => fc.originalIndex === selectedChapterIndex);
         
-        if (isPlayingSummary && currentChapter) {
+        // No modo "só resumos", avançar leva ao resumo do próximo tópico, nunca ao conteúdo completo.
+        // (Voltar já não passa pelo conteúdo completo: durante um resumo, apenas navega para o tópico anterior.)
+        if (isPlayingSummary && currentChapter && listeningModeRef.current !== 'summariesOnly') {
             loadAndPlay(
                 currentChapter.chapter.content,
                 selectedChapterIndex,
@@ -528,6 +647,49 @@ export default function App() {
         return () => clearTimeout(timeoutId);
     }, [selectedChapterData]);
 
+    // Leitura acompanhada: destaca o bloco que está sendo narrado e o mantém visível.
+    // Os índices de parágrafo do player correspondem aos blocos de primeiro nível do Markdown renderizado.
+    const isNarratingSelectedChapter = audioState.status !== 'idle' && audioState.status !== 'error'
+        && audioState.trackInfo.chapterIndex === selectedChapterIndex
+        && !audioState.trackInfo.chapterTitle?.startsWith('Resumo:');
+    const narratedParagraphIndex = isNarratingSelectedChapter ? audioState.trackInfo.paragraphIndex : null;
+
+    useEffect(() => {
+        const root = contentContainerRef.current?.querySelector('[data-narration-root]');
+        if (!root || narratedParagraphIndex === null) return;
+        const block = root.children[narratedParagraphIndex];
+        if (!block) return;
+
+        block.classList.add('narration-active');
+        block.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        return () => block.classList.remove('narration-active');
+    }, [narratedParagraphIndex, selectedChapterData]);
+
+    // Clicar em um bloco do tópico inicia a narração a partir dele.
+    const handleNarrationClick = (event: React.MouseEvent<HTMLDivElement>) => {
+        // Durante a geração, o conteúdo exibido ainda está incompleto.
+        if (!selectedChapterData || isLoading) return;
+        const target = event.target as HTMLElement;
+        // Links, botões (ex: "Copiar" dos blocos de código) e seleções de texto mantêm o comportamento normal.
+        if (target.closest('a, button') || !(window.getSelection()?.isCollapsed ?? true)) return;
+        // Um clique comum só salta de parágrafo quando a narração já está em andamento; para começar a ouvir
+        // é preciso Alt + clique, já que iniciar a narração gera áudio (pago) para o tópico.
+        const isNarrationActive = audioState.status === 'playing' || audioState.status === 'paused' || audioState.status === 'loading';
+        if (!isNarrationActive && !event.altKey) return;
+
+        const blocks: Element[] = Array.from(event.currentTarget.children);
+        const blockIndex = blocks.findIndex(block => block.contains(target));
+        if (blockIndex === -1) return;
+
+        loadAndPlay(
+            selectedChapterData.chapter.content,
+            selectedChapterIndex,
+            blockIndex,
+            onAudioEnded,
+            selectedChapterData.chapter.title
+        );
+    };
+
     const handleGeneratePlan = async (
         source: { type: 'files'; data: File[] } | { type: 'url'; data: string },
         studyTopic: string,
@@ -542,36 +704,148 @@ export default function App() {
         setIsLoading(true);
         setError(null);
         setDoc(null);
+        setCurrentPlanId(null);
+        setPlanVoiceProfile(null);
+        setPlanProgress(null);
+        setSelectedChapterIndex(0);
+        setFocusedTopicIndex(0);
+        setExpandedParentIndex(0);
+        setSearchQuery('');
+
+        const controller = new AbortController();
+        planAbortControllerRef.current = controller;
+        // Os tópicos já concluídos são exibidos enquanto o restante do plano ainda está sendo gerado.
+        const options = {
+            signal: controller.signal,
+            onProgress: (progress: PlanProgress) => {
+                if (controller.signal.aborted) return;
+                setPlanProgress(progress);
+                if (progress.chapters.length > 0) {
+                    setDoc({ title: progress.title || 'Gerando plano...', chapters: progress.chapters });
+                }
+            },
+        };
     
         try {
             let studyPlan;
             if (source.type === 'files') {
-                const fileContents = await Promise.all(
-                    source.data.map(file => new Promise<{name: string; content: string}>((resolve, reject) => {
-                        const reader = new FileReader();
-                        reader.onload = () => resolve({ name: file.name, content: reader.result as string });
-                        reader.onerror = (error) => reject(new Error(`Erro ao ler o arquivo ${file.name}: ${error}`));
-                        reader.readAsText(file);
-                    }))
-                );
-                studyPlan = await generateStudyPlan({ files: fileContents }, studyTopic, additionalTopics);
+                const fileContents = await Promise.all(source.data.map(extractFileContent));
+                studyPlan = await getAIProvider().generateStudyPlan({ files: fileContents }, studyTopic, additionalTopics, options);
             } else { // source.type === 'url'
-                studyPlan = await generateStudyPlan({ url: source.data }, studyTopic, additionalTopics);
+                studyPlan = await getAIProvider().generateStudyPlan({ url: source.data }, studyTopic, additionalTopics, options);
             }
-
+            if (controller.signal.aborted) return;
+
+            const now = Date.now();
+            const storedPlan: StoredStudyPlan = {
+                id: crypto.randomUUID(),
+                topic: studyTopic.trim(),
+                additionalTopics,
+                source: source.type === 'files'
+                    ? { type: 'files', files: source.data.map(file => ({ name: file.name, size: file.size })) }
+                    : { type: 'url', url: source.data },
+                doc: studyPlan,
+                createdAt: now,
+                updatedAt: now,
+            };
+            // A falha ao salvar na biblioteca não deve impedir o usuário de ver o plano gerado.
+            savePlan(storedPlan).catch(console.error);
+
+            // Mantém o tópico que o usuário já estava lendo durante a geração, se ele ainda existir.
+            const totalTopics = flattenChapters(studyPlan.chapters).length;
             setDoc(studyPlan);
-            setSelectedChapterIndex(0);
-            setFocusedTopicIndex(0);
-            setExpandedParentIndex(0);
-            setSearchQuery('');
+            setCurrentPlanId(storedPlan.id);
+            setSelectedChapterIndex(prev => (prev < totalTopics ? prev : 0));
         } catch (err) {
+            if (controller.signal.aborted) return;
+            setDoc(null);
             const errorMessage = err instanceof Error ? err.message : "Ocorreu um erro desconhecido.";
             setError(errorMessage);
         } finally {
-            setIsLoading(false);
+            if (planAbortControllerRef.current === controller) {
+                planAbortControllerRef.current = null;
+                setIsLoading(false);
+                setPlanProgress(null);
+            }
         }
     };
+
+    // Interrompe a geração em andamento e descarta o plano parcial.
+    const handleCancelGeneration = () => {
+        planAbortControllerRef.current?.abort();
+        planAbortControllerRef.current = null;
+        setIsLoading(false);
+        setPlanProgress(null);
+        setDoc(null);
+    };
     
+    const openDocument = (documentation: Documentation, planId: string) => {
+        setDoc(documentation);
+        setCurrentPlanId(planId);
+        setSelectedChapterIndex(0);
+        setFocusedTopicIndex(0);
+        setExpandedParentIndex(0);
+        setSearchQuery('');
+    };
+
+    const handleOpenPlan = (plan: StoredStudyPlan) => {
+        stopAudio();
+        setError(null);
+        setPlanVoiceProfile(plan.voiceProfile ?? null);
+        setShowResumeOffer(true);
+        openDocument(plan.doc, plan.id);
+    };
+
+    const handleClosePlan = () => {
+        if (planAbortControllerRef.current) handleCancelGeneration();
+        // Descarta um resumo que ainda estava sendo preparado para narração.
+        summaryPlaybackIdRef.current++;
+        stopAudio();
+        setDoc(null);
+        setCurrentPlanId(null);
+        setPlanVoiceProfile(null);
+        setShowResumeOffer(false);
+        setQuizChapterIndex(null);
+        setIsMockExamOpen(false);
+        setIsFlashcardsOpen(false);
+        setIsDashboardOpen(false);
+        setIsFocusMode(false);
+        summaryAbortControllerRef.current?.abort();
+        summaryAbortControllerRef.current = null;
+        setSummaryState(prev => ({ ...prev, isModalOpen: false, isLoading: false, content: null, chapterIndex: null, chapterTitle: null }));
+    };
+
+    // A nova voz vale a partir do próximo áudio carregado; o perfil do plano fica salvo junto com ele.
+    const handleSaveVoiceProfile = (scope: VoiceProfileScope, profile: VoiceProfile | null) => {
+        if (scope === 'plan') {
+            if (!currentPlanId) return;
+            setPlanVoiceProfile(profile);
+            updatePlan(currentPlanId, plan => ({ ...plan, voiceProfile: profile ?? undefined })).catch(console.error);
+        } else if (scope === 'language') {
+            if (!planLanguage) return;
+            const profiles = { ...languageVoiceProfiles };
+            if (profile) profiles[planLanguage] = profile;
+            else delete profiles[planLanguage];
+            setLanguageVoiceProfiles(profiles);
+            saveLanguageVoiceProfiles(profiles);
+        } else if (profile) {
+            setAudioConfig(prev => ({ ...prev, voice: profile.voice, speed: profile.speed }));
+        }
+    };
+
+    // Mudar a velocidade no player atualiza o perfil em uso (do plano, do idioma ou o padrão).
+    const handlePlayerSpeedChange = (speed: number) => {
+        handleSpeedChange(speed);
+        if (planVoiceProfile) handleSaveVoiceProfile('plan', { ...planVoiceProfile, speed });
+        else if (activeVoiceProfile) handleSaveVoiceProfile('language', { ...activeVoiceProfile, speed });
+    };
+
+    // Gera os resumos e o áudio de todo o plano com a voz e as opções de narração atuais.
+    const handlePrepareOfflineAudio = () => {
+        if (!currentPlanId) return;
+        startPreparation({ planId: currentPlanId, voice: audioConfig.voice, speech: audioConfig.speech });
+    };
+
     const handleDownload = (format: 'md' | 'html' | 'pdf') => {
         if (!doc) return;
         if (format === 'md') generateAndDownloadMarkdown(doc);
@@ -589,10 +863,56 @@ export default function App() {
         }).catch(err => console.error('Falha ao copiar texto: ', err));
     };
 
+    // Resumos já gerados (inclusive pela preparação do áudio offline) ficam salvos no plano.
+    const getChapterSummary = async (chapterIndex: number, chapter: Chapter, signal?: AbortSignal) => {
+        const storedSummary = currentPlanId ? (await getPlan(currentPlanId).catch(() => undefined))?.summaries?.[chapterIndex] : undefined;
+        if (storedSummary) return storedSummary;
+        const summary = await getAIProvider().generateChapterSummary(chapter.title, chapter.content, signal);
+        if (currentPlanId) saveChapterSummary(currentPlanId, chapterIndex, summary).catch(console.error);
+        return summary;
+    };
+
+    // Narra o resumo de um tópico, gerando-o se necessário (modo "somente resumos" e repetição de resumos).
+    const summaryPlaybackIdRef = useRef(0);
+    playChapterSummaryRef.current = async (chapterIndex: number) => {
+        const chapterData = flattenedChapters.find(fc => fc.originalIndex === chapterIndex);
+        if (!chapterData) return;
+        const requestId = ++summaryPlaybackIdRef.current;
+        try {
+            const summary = await getChapterSummary(chapterIndex, chapterData.chapter);
+            if (requestId !== summaryPlaybackIdRef.current) return;
+            loadAndPlay(summary, chapterIndex, -1, onAudioEnded, `Resumo: ${chapterData.chapter.title}`);
+        } catch (err) {
+            if (requestId !== summaryPlaybackIdRef.current) return;
+            const message = err instanceof Error ? err.message : "Erro desconhecido ao gerar resumo.";
+            setError(`Não foi possível gerar o resumo de "${chapterData.chapter.title}": ${message}`);
+        }
+    };
+
+    // O timer em minutos pausa a narração (que pode ser retomada de onde parou).
+    useEffect(() => {
+        if (sleepTimer?.type !== 'minutes') return;
+        const timeoutId = setTimeout(() => {
+            pauseAudio();
+            setSleepTimer(null);
+        }, Math.max(0, sleepTimer.endsAt - Date.now()));
+        return () => clearTimeout(timeoutId);
+    }, [sleepTimer, pauseAudio]);
+
+    const handleSleepTimerChange = (option: number | 'endOfChapter' | null) => {
+        if (option === null) setSleepTimer(null);
+        else if (option === 'endOfChapter') setSleepTimer({ type: 'endOfChapter' });
+        else setSleepTimer({ type: 'minutes', endsAt: Date.now() + option * 60_000 });
+    };
+
     const handleGenerateSummary = async (chapterIndex: number) => {
         const chapterData = flattenedChapters.find(fc => fc.originalIndex === chapterIndex);
         if (!doc || !chapterData) return;
         const { chapter } = chapterData;
+
+        summaryAbortControllerRef.current?.abort();
+        const controller = new AbortController();
+        summaryAbortControllerRef.current = controller;
         
         setSummaryState({
             isLoading: true, error: null, content: null, chapterTitle: chapter.title, 
@@ -600,14 +920,25 @@ export default function App() {
         });
 
         try {
-            const summary = await generateChapterSummary(chapter.title, chapter.content);
+            const summary = await getChapterSummary(chapterIndex, chapter, controller.signal);
+            if (controller.signal.aborted) return;
             setSummaryState(prev => ({ ...prev, content: summary, isLoading: false }));
         } catch (err) {
+            if (controller.signal.aborted) return;
             const errorMessage = err instanceof Error ? err.message : "Erro desconhecido ao gerar resumo.";
             setSummaryState(prev => ({ ...prev, error: errorMessage, isLoading: false }));
+        } finally {
+            if (summaryAbortControllerRef.current === controller) summaryAbortControllerRef.current = null;
         }
     };
 
+    // Fecha o modal de resumo, interrompendo a geração se ela ainda estiver em andamento.
+    const handleCloseSummary = () => {
+        summaryAbortControllerRef.current?.abort();
+        summaryAbortControllerRef.current = null;
+        setSummaryState(prev => ({ ...prev, isModalOpen: false, isLoading: false }));
+    };
+
     const handleCopySummary = () => {
         if (!summaryState.content) return;
         navigator.clipboard.writeText(summaryState.content).then(() => {
@@ -618,10 +949,27 @@ export default function App() {
 
     const handleExportSummary = () => {
         if (!summaryState.content || !summaryState.chapterTitle) return;
-        const filename = `resumo_${summaryState.chapterTitle.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.txt`;
+        const filename = `resumo_${toFileName(summaryState.chapterTitle)}.txt`;
         downloadAsFile(summaryState.content, filename, 'text/plain;charset=utf-8');
     };
 
+    // Leva da explicação de uma questão até a seção correspondente do tópico.
+    const handleGoToQuizSection = (section: string) => {
+        if (quizChapterIndex === null) return;
+        setSelectedChapterIndex(quizChapterIndex);
+        setQuizChapterIndex(null);
+        // Pequeno atraso para que o conteúdo do tópico já esteja renderizado.
+        setTimeout(() => {
+            const root = contentContainerRef.current?.querySelector('[data-narration-root]');
+            if (!root) return;
+            let heading: HTMLElement | undefined;
+            root.querySelectorAll<HTMLElement>('h1, h2, h3, h4, h5, h6').forEach(element => {
+                if (!heading && element.textContent?.trim() === section) heading = element;
+            });
+            heading?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }, 100);
+    };
+
     const handleGoToChapterFromSummary = () => {
         if (summaryState.chapterIndex !== null) {
             handleChapterSelect(summaryState.chapterIndex);
@@ -657,6 +1005,9 @@ export default function App() {
                 <p className="text-gray-300 mt-3 text-base sm:text-lg max-w-lg mx-auto">
                     Seu plano de estudo para certificação e estudo livre, turbinado por Agentes IA Autônomos
                 </p>
+                <button onClick={() => setIsSettingsOpen(true)} className="absolute top-4 right-4 p-2 rounded-full text-gray-400 hover:text-gray-200 hover:bg-gray-800 transition" title="Configurações de IA" aria-label="Abrir configurações de IA">
+                    <Cog6ToothIcon className="w-6 h-6" />
+                </button>
             </div>
         </header>
     );
@@ -673,7 +1024,7 @@ export default function App() {
     
         useEffect(() => {
             const upperExamCode = examCode.toUpperCase().trim();
-            const foundName = MOCK_EXAMS[upperExamCode as keyof typeof MOCK_EXAMS];
+            const foundName = CERTIFICATION_EXAMS[upperExamCode]?.name;
             if (foundName) {
                 setExamName(foundName);
             } else {
@@ -745,7 +1096,7 @@ export default function App() {
                                     <UploadCloudIcon className="w-12 h-12 text-gray-500 mb-3" />
                                     <p className="text-gray-400">Arraste e solte até 10 arquivos aqui</p>
                                     <p className="text-sm text-gray-500">ou clique para selecionar (PDF, MD, DOCX, HTML)</p>
-                                    <input type="file" ref={fileInputRef} onChange={e => handleFiles(e.target.files)} multiple hidden accept=".pdf,.md,.docx,.doc,.html" />
+                                    <input type="file" ref={fileInputRef} onChange={e => handleFiles(e.target.files)} multiple hidden accept=".pdf,.md,.docx,.doc,.html,.htm" />
                                 </div>
                                 {files.length > 0 && (
                                     <div className="mt-4 space-y-2">
@@ -805,10 +1156,17 @@ export default function App() {
                         />
                     </div>
     
-                    <button type="submit" disabled={isLoading || ((sourceType === 'files' && files.length === 0) || (sourceType === 'url' && !docUrl.trim())) || !examCode.trim()} className="w-full flex items-center justify-center gap-3 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold px-6 py-4 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity duration-300 text-lg shadow-lg shadow-indigo-900/50">
-                        {isLoading ? <LoaderIcon className="animate-spin w-6 h-6" /> : <SparklesIcon className="w-6 h-6" />}
-                        <span>{isLoading ? 'Gerando Plano...' : 'Gerar Plano de Estudo'}</span>
-                    </button>
+                    <div className="flex items-stretch gap-3">
+                        <button type="submit" disabled={isLoading || ((sourceType === 'files' && files.length === 0) || (sourceType === 'url' && !docUrl.trim())) || !examCode.trim()} className="flex-1 flex items-center justify-center gap-3 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold px-6 py-4 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity duration-300 text-lg shadow-lg shadow-indigo-900/50">
+                            {isLoading ? <LoaderIcon className="animate-spin w-6 h-6" /> : <SparklesIcon className="w-6 h-6" />}
+                            <span>{isLoading ? 'Gerando Plano...' : 'Gerar Plano de Estudo'}</span>
+                        </button>
+                        {isLoading && (
+                            <button type="button" onClick={handleCancelGeneration} className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold px-5 rounded-lg transition" title="Cancelar a geração do plano">
+                                <StopIcon className="w-5 h-5" /> Cancelar
+                            </button>
+                        )}
+                    </div>
                 </form>
             </div>
         );
@@ -836,18 +1194,43 @@ export default function App() {
         return currentVisibleIndex <= 0;
     }, [doc, currentVisibleIndex]);
 
+    // Próximo/anterior nos controles de mídia do sistema seguem a mesma navegação dos botões do player.
+    useEffect(() => {
+        setTrackNavigation({
+            onNext: hasActiveAudio && !isNextDisabled ? handleNextChapter : null,
+            onPrevious: hasActiveAudio && !isPreviousDisabled ? handlePreviousChapter : null,
+        });
+    }, [setTrackNavigation, hasActiveAudio, isNextDisabled, isPreviousDisabled, handleNextChapter, handlePreviousChapter]);
+
     return (
         <div className="bg-transparent text-gray-200 min-h-screen flex flex-col">
             {!isFocusMode && <Header />}
             <main className={`flex-grow ${isFocusMode ? 'p-0' : 'p-4 md:p-8'} ${hasActiveAudio && !isFocusMode ? 'pb-32 md:pb-28' : ''}`}>
                 {!doc && <StudyPlanForm />}
+                {!doc && !isLoading && <PlanLibrary onOpenPlan={handleOpenPlan} />}
                 {isLoading && (
-                    <div className="text-center mt-12 flex flex-col items-center">
-                        <LoaderIcon className="w-12 h-12 animate-spin text-indigo-400" />
-                        <p className="mt-4 text-lg text-gray-400">Analisando seus materiais e pesquisando a web... Isso pode levar alguns minutos.</p>
+                    <div className={`${doc ? 'max-w-7xl mt-6' : 'max-w-3xl mt-12'} mx-auto flex flex-col sm:flex-row items-center justify-between gap-4 bg-gray-900/50 backdrop-blur-sm p-4 rounded-lg border border-gray-800`}>
+                        <div className="flex items-center gap-4 text-center sm:text-left">
+                            <LoaderIcon className="w-8 h-8 flex-shrink-0 animate-spin text-indigo-400" />
+                            <div>
+                                <p className="text-gray-200 font-medium">{PLAN_PHASE_LABELS[planProgress?.phase ?? 'researching']}</p>
+                                <p className="text-sm text-gray-400">
+                                    {planProgress?.part && `Parte ${planProgress.part.current} de ${planProgress.part.total} · `}
+                                    {planProgress && planProgress.chapters.length > 0
+                                        ? `${planProgress.chapters.length} tópico(s) recebido(s)`
+                                        : 'Isso pode levar alguns minutos.'}
+                                </p>
+                            </div>
+                        </div>
+                        {/* Sem o plano parcial, o formulário (com o próprio botão de cancelar) continua visível. */}
+                        {doc && (
+                            <button onClick={handleCancelGeneration} className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition" title="Cancelar a geração do plano">
+                                <StopIcon className="w-4 h-4" /> Cancelar
+                            </button>
+                        )}
                     </div>
                 )}
-                {error && <div className="text-center mt-8 bg-red-900/30 text-red-300 p-4 rounded-md max-w-3xl mx-auto border border-red-700/50">{error}</div>}
+                {error && <div className="text-center whitespace-pre-line mt-8 bg-red-900/30 text-red-300 p-4 rounded-md max-w-3xl mx-auto border border-red-700/50">{error}</div>}
                 
                 {doc && (
                     <div className={`${isFocusMode ? '' : 'max-w-7xl mx-auto mt-6'}`}>
@@ -855,6 +1238,9 @@ export default function App() {
                             <div className="bg-gray-900/50 backdrop-blur-sm p-4 rounded-lg border border-gray-800 mb-6 flex flex-col md:flex-row justify-between items-center gap-4">
                                 <h2 className="text-2xl font-bold text-white text-center md:text-left">{doc.title}</h2>
                                 <div className="flex items-center gap-3 flex-wrap justify-center md:justify-end">
+                                    <button onClick={handleClosePlan} className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition" title="Voltar para a biblioteca de planos">
+                                        <BookOpenIcon className="w-5 h-5" /> Meus Planos
+                                    </button>
                                     <button onClick={handleCopyToClipboard} className={`flex items-center gap-2 text-sm px-3 py-2 rounded-md transition ${copyStatus === 'copied' ? 'bg-green-800 text-green-200' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`} title="Copiar conteúdo em Markdown">
                                         {copyStatus === 'copied' ? <CheckIcon className="w-5 h-5" /> : <CopyIcon className="w-5 h-5" />}
                                         {copyStatus === 'copied' ? 'Copiado!' : 'Copiar MD'}
@@ -868,6 +1254,70 @@ export default function App() {
                                     <button onClick={() => handleDownload('pdf')} className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition" title="Salvar como PDF">
                                         <PdfIcon className="w-5 h-5" /> PDF
                                     </button>
+                                    <button
+                                        onClick={() => setAudioExport({ title: doc.title, sections: planToExportSections(doc), fileName: toFileName(doc.title) })}
+                                        disabled={isLoading}
+                                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition disabled:opacity-50"
+                                        title="Exportar o áudio do plano inteiro"
+                                    >
+                                        <AudioIcon className="w-5 h-5" /> Áudio
+                                    </button>
+                                    <button
+                                        onClick={handlePrepareOfflineAudio}
+                                        disabled={isLoading || !currentPlanId || preparationState.status === 'running'}
+                                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition disabled:opacity-50"
+                                        title="Gerar e guardar os resumos e o áudio de todos os tópicos para estudar offline"
+                                    >
+                                        <CloudArrowDownIcon className="w-5 h-5" /> Offline
+                                    </button>
+                                    <button
+                                        onClick={() => setIsVoiceDialogOpen(true)}
+                                        disabled={isLoading || !currentPlanId}
+                                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition disabled:opacity-50"
+                                        title="Escolher a voz e a velocidade da narração deste plano"
+                                    >
+                                        <VolumeUpIcon className="w-5 h-5" /> Voz
+                                    </button>
+                                    <button
+                                        onClick={() => setIsMockExamOpen(true)}
+                                        disabled={isLoading}
+                                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition disabled:opacity-50"
+                                        title={certificationExam ? `Fazer um simulado cronometrado no formato de ${certificationExam.name}` : 'Fazer um simulado cronometrado com questões de todos os tópicos'}
+                                    >
+                                        <AcademicCapIcon className="w-5 h-5" /> Simulado
+                                    </button>
+                                    <button
+                                        onClick={() => setIsFlashcardsOpen(true)}
+                                        disabled={isLoading || !currentPlanId}
+                                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition disabled:opacity-50"
+                                        title="Gerar cartões de memorização e fazer a revisão do dia"
+                                    >
+                                        <RectangleStackIcon className="w-5 h-5" /> Cartões
+                                    </button>
+                                    <button
+                                        onClick={() => setIsDashboardOpen(true)}
+                                        disabled={isLoading || !currentPlanId}
+                                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition disabled:opacity-50"
+                                        title="Ver a conclusão de cada tópico e a prontidão para a prova"
+                                    >
+                                        <ChartBarIcon className="w-5 h-5" /> Progresso
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                        {!isFocusMode && showResumeOffer && resumePosition && (
+                            <div className="bg-indigo-900/30 border border-indigo-700/50 rounded-lg p-4 mb-6 flex flex-col sm:flex-row justify-between items-center gap-3">
+                                <p className="text-sm text-indigo-100">
+                                    Você parou em <span className="font-semibold">{resumePosition.chapterTitle}</span>
+                                    <span className="text-indigo-300"> · trecho {resumePosition.paragraphIndex + 1} de {resumePosition.paragraphCount}</span>
+                                </p>
+                                <div className="flex items-center gap-2">
+                                    <button onClick={handleResumePlayback} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm px-3 py-2 rounded-md font-semibold transition">
+                                        <PlayIcon className="w-4 h-4" /> Continuar de onde parou
+                                    </button>
+                                    <button onClick={() => setShowResumeOffer(false)} className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition">
+                                        Dispensar
+                                    </button>
                                 </div>
                             </div>
                         )}
@@ -928,7 +1378,9 @@ export default function App() {
                                                                 onClick={(e) => e.preventDefault()}
                                                                 className={`flex-grow text-left p-3 rounded-lg text-sm transition-all duration-200 ${selectedChapterIndex === chapterData.originalIndex ? 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold shadow-md' : 'text-gray-300 hover:bg-gray-800'} ${focusedTopicIndex === chapterData.originalIndex ? 'ring-2 ring-offset-2 ring-offset-gray-900 ring-indigo-500' : ''}`}
                                                             >
+                                                                <ChapterStatusDot status={studyProgress[chapterData.originalIndex]?.status ?? 'not_started'} />
                                                                 {chapterData.chapter.title}
+                                                                {listenedProgress[chapterData.originalIndex] > 0 && <ListenedProgressBar fraction={listenedProgress[chapterData.originalIndex]} />}
                                                             </a>
                                                             {chapterData.isParent && (
                                                                 <ChevronRightIcon className={`w-5 h-5 mr-2 flex-shrink-0 transition-transform ${expandedParentIndex === chapterData.originalIndex ? 'rotate-90' : ''}`} />
@@ -945,7 +1397,9 @@ export default function App() {
                                                                                 style={{ paddingLeft: `${12}px` }}
                                                                                 className={`flex-grow text-left p-2 rounded-lg text-sm transition-all duration-200 ${selectedChapterIndex === subChapter.originalIndex ? 'bg-indigo-700 text-white font-semibold' : 'text-gray-400 hover:bg-gray-800'} ${focusedTopicIndex === subChapter.originalIndex ? 'ring-2 ring-offset-2 ring-offset-gray-900 ring-indigo-500' : ''}`}
                                                                             >
+                                                                                <ChapterStatusDot status={studyProgress[subChapter.originalIndex]?.status ?? 'not_started'} />
                                                                                 {subChapter.chapter.title}
+                                                                                {listenedProgress[subChapter.originalIndex] > 0 && <ListenedProgressBar fraction={listenedProgress[subChapter.originalIndex]} />}
                                                                             </a>
                                                                          </li>
                                                                     ))}
@@ -991,22 +1445,51 @@ export default function App() {
                                                             );
                                                         }
                                                     }}
-                                                    disabled={audioState.status === 'loading'}
+                                                    disabled={isLoading || audioState.status === 'loading'}
                                                     className="flex items-center gap-2 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm font-medium disabled:opacity-50 disabled:cursor-wait transition"
                                                     title="Ouvir o conteúdo deste tópico"
                                                 >
                                                     <AudioIcon className="w-4 h-4"/>
                                                     <span>Ouvir</span>
                                                 </button>
-                                                 <button onClick={() => handleGenerateSummary(selectedChapterIndex)} disabled={summaryState.isLoading && summaryState.chapterIndex === selectedChapterIndex} className="flex items-center gap-2 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm font-medium disabled:opacity-50 disabled:cursor-wait transition" title="Gerar resumo do tópico">
+                                                <button
+                                                    onClick={() => setAudioExport({
+                                                        title: selectedChapterData.chapter.title,
+                                                        sections: [{ title: selectedChapterData.chapter.title, markdown: selectedChapterData.chapter.content, chapterIndex: selectedChapterIndex }],
+                                                        fileName: toFileName(selectedChapterData.chapter.title),
+                                                    })}
+                                                    disabled={isLoading}
+                                                    className="flex items-center gap-2 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm font-medium disabled:opacity-50 disabled:cursor-wait transition"
+                                                    title="Exportar o áudio deste tópico"
+                                                >
+                                                    <AudioIcon className="w-4 h-4"/>
+                                                    <span>Exportar áudio</span>
+                                                </button>
+                                                 <button onClick={() => handleGenerateSummary(selectedChapterIndex)} disabled={isLoading || (summaryState.isLoading && summaryState.chapterIndex === selectedChapterIndex)} className="flex items-center gap-2 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm font-medium disabled:opacity-50 disabled:cursor-wait transition" title="Gerar resumo do tópico">
                                                     {summaryState.isLoading && summaryState.chapterIndex === selectedChapterIndex ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <DocumentTextIcon className="w-4 h-4" />}
                                                     <span>Resumir</span>
                                                 </button>
+                                                <button onClick={() => setQuizChapterIndex(selectedChapterIndex)} disabled={isLoading} className="flex items-center gap-2 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm font-medium disabled:opacity-50 disabled:cursor-wait transition" title="Testar os conhecimentos sobre este tópico">
+                                                    <AcademicCapIcon className="w-4 h-4" />
+                                                    <span>Questionário</span>
+                                                </button>
+                                                {currentPlanId && (
+                                                    <select
+                                                        value={studyProgress[selectedChapterIndex]?.status ?? 'not_started'}
+                                                        onChange={(e) => setChapterStatus(selectedChapterIndex, e.target.value as ChapterStatus)}
+                                                        className="px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm font-medium text-gray-200 border-none focus:ring-2 focus:ring-indigo-500 transition"
+                                                        title="Etapa de estudo deste tópico"
+                                                    >
+                                                        {Object.entries(CHAPTER_STATUS_LABELS).map(([status, label]) => (
+                                                            <option key={status} value={status}>{label}</option>
+                                                        ))}
+                                                    </select>
+                                                )}
                                             </div>
 
                                             <div className={`prose prose-invert max-w-none prose-pre:bg-gray-900 prose-pre:rounded-md prose-pre:border prose-pre:border-gray-700 prose-img:rounded-md prose-a:text-indigo-400 hover:prose-a:text-indigo-300 prose-strong:text-gray-100`}>
                                                 <div className={`${isFocusMode ? 'max-w-3xl mx-auto py-8' : ''}`}>
-                                                    <div className="select-text" dangerouslySetInnerHTML={{ __html: converter.makeHtml(selectedChapterData.chapter.content) }}/>
+                                                    <div className="select-text" data-narration-root onClick={handleNarrationClick} title={audioState.status === 'idle' || audioState.status === 'error' ? 'Alt + clique em um parágrafo para ouvir a partir dele' : 'Clique em um parágrafo para ouvir a partir dele'} dangerouslySetInnerHTML={{ __html: converter.makeHtml(selectedChapterData.chapter.content) }}/>
                                                 </div>
                                             </div>
                                         </div>
@@ -1018,6 +1501,70 @@ export default function App() {
                 )}
             </main>
 
+            {isSettingsOpen && <SettingsPanel onClose={() => setIsSettingsOpen(false)} />}
+            {isVoiceDialogOpen && planLanguage && (
+                <VoiceProfileDialog
+                    language={planLanguage}
+                    planProfile={planVoiceProfile}
+                    languageProfile={languageVoiceProfiles[planLanguage] ?? null}
+                    defaultProfile={defaultVoiceProfile}
+                    onSave={handleSaveVoiceProfile}
+                    onClose={() => setIsVoiceDialogOpen(false)}
+                />
+            )}
+            <AudioPreparationStatus
+                state={preparationState}
+                onCancel={cancelPreparation}
+                onRetry={() => preparationState.job && startPreparation(preparationState.job)}
+                onDismiss={dismissPreparation}
+            />
+            {audioExport && (
+                <AudioExportDialog
+                    title={audioExport.title}
+                    sections={audioExport.sections}
+                    fileName={audioExport.fileName}
+                    audioConfig={audioConfig}
+                    planId={currentPlanId}
+                    onClose={() => setAudioExport(null)}
+                />
+            )}
+            {quizChapterIndex !== null && flattenedChapters[quizChapterIndex] && (
+                <QuizDialog
+                    planId={currentPlanId}
+                    chapterIndex={quizChapterIndex}
+                    chapter={flattenedChapters[quizChapterIndex].chapter}
+                    onGoToSection={handleGoToQuizSection}
+                    onClose={() => setQuizChapterIndex(null)}
+                />
+            )}
+            {isMockExamOpen && doc && (
+                <MockExamDialog
+                    doc={doc}
+                    format={certificationExam ?? DEFAULT_EXAM_FORMAT}
+                    isCertification={certificationExam !== null}
+                    onClose={() => setIsMockExamOpen(false)}
+                />
+            )}
+            {isFlashcardsOpen && doc && currentPlanId && (
+                <FlashcardReviewDialog
+                    planId={currentPlanId}
+                    doc={doc}
+                    onClose={() => setIsFlashcardsOpen(false)}
+                />
+            )}
+            {isDashboardOpen && doc && currentPlanId && (
+                <StudyDashboardDialog
+                    planId={currentPlanId}
+                    doc={doc}
+                    studyProgress={studyProgress}
+                    listenedProgress={listenedProgress}
+                    onSelectChapter={(chapterIndex) => {
+                        setIsDashboardOpen(false);
+                        handleChapterSelect(chapterIndex);
+                    }}
+                    onClose={() => setIsDashboardOpen(false)}
+                />
+            )}
             {summaryState.isModalOpen && (
                 <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
                     <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-700">
@@ -1026,7 +1573,13 @@ export default function App() {
                         </header>
                         <main className="p-6 overflow-y-auto custom-scrollbar">
                             {summaryState.isLoading ? (
-                                <div className="flex flex-col items-center justify-center text-center text-gray-400"><LoaderIcon className="w-10 h-10 animate-spin text-indigo-500 mb-4" /><p>Gerando resumo com IA...</p></div>
+                                <div className="flex flex-col items-center justify-center text-center text-gray-400">
+                                    <LoaderIcon className="w-10 h-10 animate-spin text-indigo-500 mb-4" />
+                                    <p>Gerando resumo com IA...</p>
+                                    <button onClick={handleCloseSummary} className="mt-4 flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition">
+                                        <StopIcon className="w-4 h-4" /> Cancelar
+                                    </button>
+                                </div>
                             ) : summaryState.error ? (
                                 <div className="bg-red-900/50 text-red-300 p-3 rounded-md border border-red-700"><strong>Erro:</strong> {summaryState.error}</div>
                             ) : summaryState.content ? (
@@ -1045,12 +1598,24 @@ export default function App() {
                                 <button onClick={handlePlaySummary} disabled={!summaryState.content || summaryState.isLoading || audioState.status === 'loading'} className="flex items-center gap-2 text-sm px-3 py-2 rounded-md transition bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50" title="Ouvir resumo">
                                     <AudioIcon className="w-5 h-5" /> <span>Ouvir</span>
                                 </button>
+                                <button
+                                    onClick={() => summaryState.content && summaryState.chapterTitle && setAudioExport({
+                                        title: `Resumo: ${summaryState.chapterTitle}`,
+                                        sections: [{ title: `Resumo: ${summaryState.chapterTitle}`, markdown: summaryState.content, chapterIndex: summaryState.chapterIndex ?? undefined }],
+                                        fileName: `resumo_${toFileName(summaryState.chapterTitle)}`,
+                                    })}
+                                    disabled={!summaryState.content || summaryState.isLoading}
+                                    className="flex items-center gap-2 text-sm px-3 py-2 rounded-md transition bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50"
+                                    title="Exportar o áudio do resumo"
+                                >
+                                    <AudioIcon className="w-5 h-5" /> <span>Exportar áudio</span>
+                                </button>
                                 <button onClick={() => alert('Funcionalidade de favoritos em desenvolvimento!')} disabled={!summaryState.content || summaryState.isLoading} className="flex items-center gap-2 text-sm px-3 py-2 rounded-md transition bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50" title="Adicionar aos favoritos (em breve)">
                                     <StarIcon className="w-5 h-5" /> <span>Favoritar</span>
                                 </button>
                             </div>
                             <div className="flex items-center gap-3">
-                                <button onClick={() => setSummaryState(prev => ({ ...prev, isModalOpen: false }))} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">Fechar</button>
+                                <button onClick={handleCloseSummary} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">Fechar</button>
                                 <button onClick={handleGoToChapterFromSummary} disabled={summaryState.chapterIndex === null} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm disabled:opacity-50">
                                     <span>Ir para Tópico</span> <ChevronRightIcon className="w-4 h-4" />
                                 </button>
@@ -1070,9 +1635,16 @@ export default function App() {
                 onSeek={seekTo}
                 onVolumeChange={handleVolumeChange}
                 onMuteToggle={handleMuteToggle}
-                onSpeedChange={handleSpeedChange}
+                onSpeedChange={handlePlayerSpeedChange}
+                listeningMode={listeningMode}
+                onListeningModeChange={setListeningMode}
+                sleepTimer={sleepTimer}
+                onSleepTimerChange={handleSleepTimerChange}
+                speechOptions={audioConfig.speech}
+                onSpeechOptionsChange={speech => setAudioConfig(prev => ({ ...prev, speech }))}
                 onNext={handleNextChapter}
                 onPrevious={handlePreviousChapter}
+                onCancel={() => stopAudio()}
                 isNextDisabled={isNextDisabled}
                 isPreviousDisabled={isPreviousDisabled}
             />
@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AudioCacheUsage } from '../types';
+import { listPlans } from '../utils/db';
+import { getAudioCacheUsage, clearAudioCache } from '../utils/speechCache';
+import { LoaderIcon, TrashIcon } from './icons';
+
+interface AudioCacheSettingsProps {
+    quotaMB: number;
+}
+
+const formatSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Lista o uso do cache de áudio por plano, com ações para limpá-lo.
+export function AudioCacheSettings({ quotaMB }: AudioCacheSettingsProps) {
+    const [usage, setUsage] = useState<AudioCacheUsage[] | null>(null);
+    const [planTitles, setPlanTitles] = useState<Record<string, string>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            const [cacheUsage, plans] = await Promise.all([getAudioCacheUsage(), listPlans()]);
+            setUsage(cacheUsage);
+            setPlanTitles(Object.fromEntries(plans.map(plan => [plan.id, plan.doc.title])));
+            setError(null);
+        } catch (err) {
+            console.error("Erro ao carregar o uso do cache de áudio:", err);
+            setError("Não foi possível carregar o uso do cache de áudio.");
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const describePlan = (planId: string | null) => {
+        if (planId === null) return 'Sem plano associado';
+        return planTitles[planId] ?? 'Plano excluído';
+    };
+
+    const handleClear = async (planId?: string | null) => {
+        const message = planId === undefined
+            ? 'Limpar todo o cache de áudio? Os trechos serão gerados novamente quando forem ouvidos.'
+            : `Limpar o áudio em cache de "${describePlan(planId)}"?`;
+        if (!window.confirm(message)) return;
+        await clearAudioCache(planId).catch(console.error);
+        refresh();
+    };
+
+    const totalBytes = usage?.reduce((sum, entry) => sum + entry.bytes, 0) ?? 0;
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <p className="text-sm text-gray-300">
+                    {usage ? `${formatSize(totalBytes)}${quotaMB > 0 ? ` de ${quotaMB} MB` : ''} em uso` : 'Calculando o uso...'}
+                </p>
+                <button type="button" onClick={() => handleClear()} disabled={!usage || usage.length === 0} className="flex items-center gap-1 text-xs text-red-300 hover:text-red-200 transition disabled:opacity-40">
+                    <TrashIcon className="w-4 h-4" /> Limpar tudo
+                </button>
+            </div>
+            {error && <div className="bg-red-900/30 text-red-300 p-3 rounded-md border border-red-700/50 text-sm">{error}</div>}
+            {!usage && !error && <LoaderIcon className="w-5 h-5 animate-spin text-gray-500" />}
+            {usage && usage.length === 0 && <p className="text-xs text-gray-500">Nenhum áudio em cache.</p>}
+            {usage && usage.length > 0 && (
+                <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar pr-1">
+                    {usage.map(entry => (
+                        <li key={entry.planId ?? 'none'} className="flex items-center justify-between gap-3 bg-gray-800 px-3 py-2 rounded-md">
+                            <div className="min-w-0">
+                                <p className="text-sm text-gray-200 truncate" title={describePlan(entry.planId)}>{describePlan(entry.planId)}</p>
+                                <p className="text-xs text-gray-500">
+                                    {entry.clipCount} {entry.clipCount === 1 ? 'trecho' : 'trechos'} · {formatSize(entry.bytes)} · usado em {new Date(entry.lastUsed).toLocaleDateString('pt-BR')}
+                                </p>
+                            </div>
+                            <button type="button" onClick={() => handleClear(entry.planId)} className="p-1.5 text-gray-400 hover:text-red-300 hover:bg-gray-700 rounded-full transition" title="Limpar o áudio deste plano">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
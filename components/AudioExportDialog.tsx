@@ -0,0 +1,126 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { AudioConfig } from '../types';
+import { exportAudio, AudioExportFormat, AudioExportProgress, AudioExportSection } from '../utils/audioExport';
+import { downloadAsFile } from '../utils/fileUtils';
+import { AudioIcon, LoaderIcon, StopIcon } from './icons';
+
+interface AudioExportDialogProps {
+    title: string;
+    sections: AudioExportSection[];
+    // Nome do arquivo, sem extensão.
+    fileName: string;
+    audioConfig: AudioConfig;
+    planId: string | null;
+    onClose: () => void;
+}
+
+const describeProgress = (progress: AudioExportProgress) =>
+    `Preparando o áudio: ${progress.completed} de ${progress.total} trechos`;
+
+export function AudioExportDialog({ title, sections, fileName, audioConfig, planId, onClose }: AudioExportDialogProps) {
+    const [format, setFormat] = useState<AudioExportFormat>('mp3');
+    const [chapterMarkers, setChapterMarkers] = useState(sections.length > 1);
+    const [progress, setProgress] = useState<AudioExportProgress | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Interrompe a exportação se o diálogo for fechado.
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const handleExport = async () => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsExporting(true);
+        setError(null);
+        setProgress(null);
+        try {
+            const blob = await exportAudio(sections, {
+                voice: audioConfig.voice,
+                planId,
+                speech: audioConfig.speech,
+                format,
+                chapterMarkers,
+                title,
+                signal: controller.signal,
+                onProgress: setProgress,
+            });
+            downloadAsFile(blob, `${fileName}.${format}`, blob.type);
+            onClose();
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error("Erro ao exportar áudio:", err);
+            setError(err instanceof Error ? err.message : "Não foi possível exportar o áudio.");
+        } finally {
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setIsExporting(false);
+            }
+        }
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsExporting(false);
+        setProgress(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-md flex flex-col border border-gray-700">
+                <header className="p-4 border-b border-gray-700">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <AudioIcon className="w-5 h-5 text-indigo-400" /> Exportar áudio
+                    </h3>
+                    <p className="text-sm text-gray-400 mt-1 truncate" title={title}>{title}</p>
+                </header>
+                <main className="p-6 space-y-4">
+                    <fieldset disabled={isExporting} className="space-y-4">
+                        <div>
+                            <p className="block text-xs font-semibold text-gray-400 mb-2">Formato</p>
+                            <div className="flex gap-2">
+                                {([['mp3', 'MP3 (compacto)'], ['wav', 'WAV (sem compressão)']] as [AudioExportFormat, string][]).map(([value, label]) => (
+                                    <button
+                                        key={value}
+                                        type="button"
+                                        onClick={() => setFormat(value)}
+                                        className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition ${format === value ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={chapterMarkers} onChange={e => setChapterMarkers(e.target.checked)} className="accent-indigo-600" />
+                            Incluir marcadores de capítulo
+                        </label>
+                        <p className="text-xs text-gray-500">
+                            {sections.length} {sections.length === 1 ? 'tópico' : 'tópicos'}, voz {audioConfig.voice}. Trechos que ainda não estão no cache serão gerados agora.
+                        </p>
+                    </fieldset>
+                    {isExporting && (
+                        <div className="flex items-center gap-3 text-sm text-gray-300">
+                            <LoaderIcon className="w-5 h-5 animate-spin text-indigo-400" />
+                            <span>{progress ? describeProgress(progress) : 'Preparando...'}</span>
+                        </div>
+                    )}
+                    {error && <div className="bg-red-900/30 text-red-300 p-3 rounded-md border border-red-700/50 text-sm">{error}</div>}
+                </main>
+                <footer className="p-4 border-t border-gray-700 flex justify-end items-center gap-3">
+                    {isExporting ? (
+                        <button onClick={handleCancel} className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">
+                            <StopIcon className="w-4 h-4" /> Cancelar
+                        </button>
+                    ) : (
+                        <button onClick={onClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">Fechar</button>
+                    )}
+                    <button onClick={handleExport} disabled={isExporting} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm disabled:opacity-50">
+                        Exportar
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+}
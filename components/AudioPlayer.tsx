@@ -1,11 +1,28 @@
 import React, { useRef, useCallback, useState, useEffect } from 'react';
 import {
     PlayIcon, PauseIcon, ChevronLeftIcon, ChevronRightIcon,
-    VolumeUpIcon, VolumeOffIcon, LoaderIcon, Cog6ToothIcon, XCircleIcon
+    VolumeUpIcon, VolumeOffIcon, LoaderIcon, Cog6ToothIcon, XCircleIcon, StopIcon
 } from './icons';
 import { AudioState } from '../hooks/useAudioPlayer';
+import { SpeechOptions, ListeningMode, SleepTimer } from '../types';
+import { PLAYBACK_SPEEDS } from '../utils/voiceProfiles';
 
-const PLAYBACK_SPEEDS = [0.75, 1, 1.25, 1.5];
+// Opções de narração exibidas nas configurações do player (aplicadas a partir do próximo áudio carregado).
+const SPEECH_OPTION_FIELDS: { key: keyof SpeechOptions; label: string; choices: { value: string; label: string }[] }[] = [
+    { key: 'headings', label: 'Títulos', choices: [{ value: 'announce', label: 'Anunciar seção' }, { value: 'plain', label: 'Ler o texto' }, { value: 'skip', label: 'Ignorar' }] },
+    { key: 'codeBlocks', label: 'Blocos de código', choices: [{ value: 'summarize', label: 'Resumir' }, { value: 'read', label: 'Ler linha a linha' }, { value: 'skip', label: 'Ignorar' }] },
+    { key: 'tables', label: 'Tabelas', choices: [{ value: 'verbalize', label: 'Ler linha a linha' }, { value: 'summarize', label: 'Resumir' }, { value: 'skip', label: 'Ignorar' }] },
+    { key: 'links', label: 'Links', choices: [{ value: 'text', label: 'Só o texto' }, { value: 'textAndDomain', label: 'Texto e site' }] },
+    { key: 'images', label: 'Imagens', choices: [{ value: 'alt', label: 'Ler a descrição' }, { value: 'skip', label: 'Ignorar' }] },
+];
+
+const LISTENING_MODES: { value: ListeningMode; label: string }[] = [
+    { value: 'sequential', label: 'Avançar pelos tópicos' },
+    { value: 'summariesOnly', label: 'Somente resumos' },
+    { value: 'repeatChapter', label: 'Repetir o tópico' },
+];
+
+const SLEEP_TIMER_MINUTES = [5, 10, 15, 30, 45, 60];
 
 interface AudioPlayerProps {
     audioState: AudioState;
@@ -14,8 +31,16 @@ interface AudioPlayerProps {
     onVolumeChange: (volume: number) => void;
     onMuteToggle: () => void;
     onSpeedChange: (speed: number) => void;
+    listeningMode: ListeningMode;
+    onListeningModeChange: (mode: ListeningMode) => void;
+    sleepTimer: SleepTimer | null;
+    // Minutos até parar, 'endOfChapter' para parar ao fim do tópico ou `null` para desligar.
+    onSleepTimerChange: (option: number | 'endOfChapter' | null) => void;
+    speechOptions: SpeechOptions;
+    onSpeechOptionsChange: (options: SpeechOptions) => void;
     onNext: () => void;
     onPrevious: () => void;
+    onCancel: () => void;
     isPreviousDisabled: boolean;
     isNextDisabled: boolean;
 }
@@ -34,8 +59,15 @@ export function AudioPlayerComponent({
     onVolumeChange,
     onMuteToggle,
     onSpeedChange,
+    listeningMode,
+    onListeningModeChange,
+    sleepTimer,
+    onSleepTimerChange,
+    speechOptions,
+    onSpeechOptionsChange,
     onNext,
     onPrevious,
+    onCancel,
     isPreviousDisabled,
     isNextDisabled,
 }: AudioPlayerProps) {
@@ -119,14 +151,24 @@ export function AudioPlayerComponent({
     const isPlaying = status === 'playing';
     const isLoading = status === 'loading';
     
+    // O componente é renderizado a cada quadro durante a reprodução, então o tempo restante se mantém atualizado.
+    const describeSleepTimer = () => {
+        if (!sleepTimer) return '';
+        if (sleepTimer.type === 'endOfChapter') return 'Para no fim do tópico';
+        return `Para em ${Math.max(1, Math.ceil((sleepTimer.endsAt - Date.now()) / 60_000))} min`;
+    };
+
     const getTrackDescription = () => {
         if (!trackInfo.chapterTitle) return '';
-        if (trackInfo.chapterTitle.startsWith('Resumo:')) {
-            return 'Ouvindo resumo do tópico';
+        let description = trackInfo.chapterTitle.startsWith('Resumo:') ? 'Ouvindo resumo do tópico' : 'Ouvindo tópico completo';
+        if (trackInfo.paragraphIndex !== null && trackInfo.paragraphCount && trackInfo.paragraphCount > 1) {
+            description += ` · Parágrafo ${trackInfo.paragraphIndex + 1} de ${trackInfo.paragraphCount}`;
         }
-        return 'Ouvindo tópico completo';
+        return sleepTimer ? `${description} · ${describeSleepTimer()}` : description;
     };
 
+    const sleepTimerValue = !sleepTimer ? 'off' : sleepTimer.type === 'endOfChapter' ? 'endOfChapter' : 'active';
+
     return (
         <div className="fixed bottom-0 left-0 right-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-t border-gray-200 dark:border-gray-700 z-40 p-3 shadow-lg-top">
             <div className="max-w-7xl mx-auto flex flex-col gap-2">
@@ -152,7 +194,7 @@ export function AudioPlayerComponent({
                         <p className="text-sm font-semibold truncate text-gray-800 dark:text-gray-200" title={trackInfo.chapterTitle}>
                             {trackInfo.chapterTitle || 'Carregando...'}
                         </p>
-                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={trackInfo.paragraphContent}>
                             {getTrackDescription()}
                         </p>
                     </div>
@@ -164,6 +206,11 @@ export function AudioPlayerComponent({
                         <button onClick={onPlayPause} disabled={isLoading} className="p-3 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 transition disabled:bg-indigo-400 disabled:cursor-wait" aria-label={isPlaying ? 'Pausar' : 'Tocar'}>
                             {isLoading ? <LoaderIcon className="w-6 h-6 animate-spin" /> : (isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />)}
                         </button>
+                        {isLoading && (
+                            <button onClick={onCancel} className="flex items-center gap-1 px-3 py-2 rounded-md text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition" aria-label="Cancelar o carregamento do áudio">
+                                <StopIcon className="w-4 h-4" /> Cancelar
+                            </button>
+                        )}
                         <button onClick={onNext} disabled={isNextDisabled} className="p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Próxima faixa">
                             <ChevronRightIcon className="w-6 h-6" />
                         </button>
@@ -202,7 +249,7 @@ export function AudioPlayerComponent({
                                {isSettingsOpen ? <XCircleIcon className="w-6 h-6 text-indigo-500" /> : <Cog6ToothIcon className="w-6 h-6" />}
                             </button>
                             {isSettingsOpen && (
-                                <div className="absolute bottom-full right-0 mb-2 w-40 bg-gray-100 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3">
+                                <div className="absolute bottom-full right-0 mb-2 w-56 max-h-[70vh] overflow-y-auto bg-gray-100 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3">
                                     <div className="space-y-2">
                                         <label htmlFor="speed-select" className="text-xs font-semibold text-gray-600 dark:text-gray-400">Velocidade</label>
                                         <select
@@ -217,6 +264,57 @@ export function AudioPlayerComponent({
                                             ))}
                                         </select>
                                     </div>
+                                    <div className="space-y-2 mt-3">
+                                        <label htmlFor="listening-mode-select" className="text-xs font-semibold text-gray-600 dark:text-gray-400">Modo de escuta</label>
+                                        <select
+                                            id="listening-mode-select"
+                                            value={listeningMode}
+                                            onChange={(e) => onListeningModeChange(e.target.value as ListeningMode)}
+                                            className="w-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm rounded-md border-transparent focus:ring-2 focus:ring-indigo-500 focus:outline-none py-1 pl-2 pr-6"
+                                        >
+                                            {LISTENING_MODES.map(mode => (
+                                                <option key={mode.value} value={mode.value}>{mode.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-2 mt-3">
+                                        <label htmlFor="sleep-timer-select" className="text-xs font-semibold text-gray-600 dark:text-gray-400">Timer para dormir</label>
+                                        <select
+                                            id="sleep-timer-select"
+                                            value={sleepTimerValue}
+                                            onChange={(e) => {
+                                                const { value } = e.target;
+                                                if (value === 'active') return;
+                                                onSleepTimerChange(value === 'off' ? null : value === 'endOfChapter' ? 'endOfChapter' : Number(value));
+                                            }}
+                                            className="w-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm rounded-md border-transparent focus:ring-2 focus:ring-indigo-500 focus:outline-none py-1 pl-2 pr-6"
+                                        >
+                                            <option value="off">Desligado</option>
+                                            {sleepTimer?.type === 'minutes' && <option value="active">{describeSleepTimer()}</option>}
+                                            {SLEEP_TIMER_MINUTES.map(minutes => (
+                                                <option key={minutes} value={minutes}>{minutes} minutos</option>
+                                            ))}
+                                            <option value="endOfChapter">Fim do tópico</option>
+                                        </select>
+                                    </div>
+                                    <div className="space-y-2 mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+                                        <p className="text-xs font-semibold text-gray-600 dark:text-gray-400">Narração</p>
+                                        {SPEECH_OPTION_FIELDS.map(field => (
+                                            <div key={field.key}>
+                                                <label htmlFor={`speech-${field.key}`} className="text-xs text-gray-500 dark:text-gray-400">{field.label}</label>
+                                                <select
+                                                    id={`speech-${field.key}`}
+                                                    value={speechOptions[field.key]}
+                                                    onChange={(e) => onSpeechOptionsChange({ ...speechOptions, [field.key]: e.target.value })}
+                                                    className="w-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm rounded-md border-transparent focus:ring-2 focus:ring-indigo-500 focus:outline-none py-1 pl-2 pr-6"
+                                                >
+                                                    {field.choices.map(choice => (
+                                                        <option key={choice.value} value={choice.value}>{choice.label}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        ))}
+                                    </div>
                                 </div>
                             )}
                        </div>
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { AudioPreparationState } from '../hooks/useAudioPreparation';
+import { CloudArrowDownIcon, LoaderIcon, StopIcon, XCircleIcon } from './icons';
+
+interface AudioPreparationStatusProps {
+    state: AudioPreparationState;
+    onCancel: () => void;
+    onRetry: () => void;
+    onDismiss: () => void;
+}
+
+const describeProgress = (state: AudioPreparationState) => {
+    const { progress } = state;
+    if (!progress) return 'Carregando o plano...';
+    if (progress.stage === 'summaries') return `Gerando resumos: ${progress.completed} de ${progress.total}`;
+    return `Gerando áudio: ${progress.completed} de ${progress.total} trechos`;
+};
+
+// Painel flutuante com o andamento da preparação do áudio offline.
+export function AudioPreparationStatus({ state, onCancel, onRetry, onDismiss }: AudioPreparationStatusProps) {
+    const [showFailures, setShowFailures] = useState(false);
+    if (state.status === 'idle') return null;
+
+    const { progress, failures } = state;
+    const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+    return (
+        <div className="fixed top-4 right-4 z-40 w-80 bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl p-4 backdrop-blur-sm text-sm">
+            <div className="flex items-start gap-3">
+                {state.status === 'running'
+                    ? <LoaderIcon className="w-5 h-5 animate-spin text-indigo-400 flex-shrink-0" />
+                    : <CloudArrowDownIcon className={`w-5 h-5 flex-shrink-0 ${state.status === 'error' || failures.length > 0 ? 'text-yellow-400' : 'text-green-400'}`} />}
+                <div className="flex-grow min-w-0">
+                    <p className="font-semibold text-white">
+                        {state.status === 'running' && 'Preparando áudio offline'}
+                        {state.status === 'done' && (failures.length > 0 ? 'Áudio offline preparado com falhas' : 'Áudio offline pronto')}
+                        {state.status === 'error' && 'Falha ao preparar o áudio offline'}
+                    </p>
+                    {state.planTitle && <p className="text-xs text-gray-400 truncate" title={state.planTitle}>{state.planTitle}</p>}
+                </div>
+                {state.status !== 'running' && (
+                    <button onClick={onDismiss} className="text-gray-500 hover:text-gray-300 transition" title="Fechar">
+                        <XCircleIcon className="w-5 h-5" />
+                    </button>
+                )}
+            </div>
+
+            {state.status === 'running' && (
+                <div className="mt-3">
+                    <p className="text-xs text-gray-300 mb-1">{describeProgress(state)}</p>
+                    <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+                    </div>
+                </div>
+            )}
+            {state.status === 'error' && <p className="mt-2 text-xs text-red-300">{state.errorMessage}</p>}
+
+            {failures.length > 0 && (
+                <div className="mt-3">
+                    <button onClick={() => setShowFailures(prev => !prev)} className="text-xs text-yellow-300 hover:text-yellow-200 transition">
+                        {failures.length} {failures.length === 1 ? 'item falhou' : 'itens falharam'} {showFailures ? '(ocultar)' : '(ver detalhes)'}
+                    </button>
+                    {showFailures && (
+                        <ul className="mt-2 max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                            {failures.map(failure => (
+                                <li key={failure.label} className="text-xs text-gray-400">
+                                    <span className="text-gray-200">{failure.label}:</span> {failure.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="mt-3 flex justify-end gap-2">
+                {state.status === 'running' ? (
+                    <button onClick={onCancel} className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md transition text-xs">
+                        <StopIcon className="w-4 h-4" /> Cancelar
+                    </button>
+                ) : (state.status === 'error' || failures.length > 0) && (
+                    <button onClick={onRetry} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition text-xs">
+                        Tentar novamente
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
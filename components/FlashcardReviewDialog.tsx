@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Documentation, Flashcard, ReviewGrade } from '../types';
+import { listFlashcards, saveFlashcards } from '../utils/db';
+import { generateMissingFlashcards, FlashcardGenerationFailure } from '../utils/flashcards';
+import { generateAndDownloadAnkiDeck, generateAndDownloadFlashcardsCsv } from '../utils/fileUtils';
+import { isDue, scheduleReview } from '../utils/spacedRepetition';
+import { CloudArrowDownIcon, LoaderIcon, SparklesIcon, StopIcon } from './icons';
+
+interface FlashcardReviewDialogProps {
+    planId: string;
+    doc: Documentation;
+    onClose: () => void;
+}
+
+const GRADE_OPTIONS: { grade: ReviewGrade; label: string; className: string }[] = [
+    { grade: 1, label: 'Errei', className: 'bg-red-800 hover:bg-red-700' },
+    { grade: 3, label: 'Difícil', className: 'bg-yellow-800 hover:bg-yellow-700' },
+    { grade: 4, label: 'Bom', className: 'bg-indigo-700 hover:bg-indigo-600' },
+    { grade: 5, label: 'Fácil', className: 'bg-green-800 hover:bg-green-700' },
+];
+
+const describeInterval = (days: number) => {
+    if (days === 0) return 'hoje';
+    if (days === 1) return '1 dia';
+    if (days < 30) return `${days} dias`;
+    const months = Math.round(days / 30);
+    return months === 1 ? '1 mês' : `${months} meses`;
+};
+
+// Revisão diária: mostra os cartões vencidos um a um e reagenda cada um pela nota dada (SM-2).
+export function FlashcardReviewDialog({ planId, doc, onClose }: FlashcardReviewDialogProps) {
+    const [cards, setCards] = useState<Flashcard[] | null>(null);
+    // Fila de revisão do dia (IDs dos cartões); os esquecidos voltam para o fim da fila.
+    const [queue, setQueue] = useState<string[]>([]);
+    const [isAnswerVisible, setIsAnswerVisible] = useState(false);
+    const [reviewedCount, setReviewedCount] = useState(0);
+    const [generation, setGeneration] = useState<{ completed: number; total: number } | null>(null);
+    const [failures, setFailures] = useState<FlashcardGenerationFailure[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        listFlashcards(planId)
+            .then(loaded => {
+                setCards(loaded);
+                setQueue(loaded.filter(card => isDue(card)).sort((a, b) => a.dueAt - b.dueAt).map(card => card.id));
+            })
+            .catch(err => {
+                console.error("Erro ao carregar os cartões:", err);
+                setError("Não foi possível carregar os cartões deste plano.");
+                setCards([]);
+            });
+        return () => abortControllerRef.current?.abort();
+    }, [planId]);
+
+    const handleGenerate = async () => {
+        if (!cards) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setGeneration({ completed: 0, total: 0 });
+        setFailures([]);
+        setError(null);
+        try {
+            const generationFailures = await generateMissingFlashcards(planId, doc, cards, {
+                signal: controller.signal,
+                onTopicDone: (newCards, completed, total) => {
+                    setGeneration({ completed, total });
+                    setCards(prev => [...(prev ?? []), ...newCards]);
+                    setQueue(prev => [...prev, ...newCards.map(card => card.id)]);
+                },
+            });
+            setFailures(generationFailures);
+        } catch (err) {
+            if (!controller.signal.aborted) {
+                setError(err instanceof Error ? err.message : "Ocorreu um erro desconhecido.");
+            }
+        } finally {
+            if (abortControllerRef.current === controller) abortControllerRef.current = null;
+            setGeneration(null);
+        }
+    };
+
+    const handleCancelGeneration = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const currentCard = cards?.find(card => card.id === queue[0]) ?? null;
+
+    const handleGrade = (grade: ReviewGrade) => {
+        if (!currentCard) return;
+        const now = Date.now();
+        const updated: Flashcard = { ...currentCard, ...scheduleReview(currentCard, grade, now), lastReviewedAt: now };
+        saveFlashcards([updated]).catch(err => {
+            console.error("Erro ao salvar a revisão do cartão:", err);
+            setError("Não foi possível salvar a revisão. Ela será perdida ao fechar esta tela.");
+        });
+        setCards(prev => prev?.map(card => (card.id === updated.id ? updated : card)) ?? prev);
+        setQueue(prev => (grade < 3 ? [...prev.slice(1), updated.id] : prev.slice(1)));
+        setReviewedCount(count => count + 1);
+        setIsAnswerVisible(false);
+    };
+
+    // Exporta na ordem do sumário, que é a ordem em que os cartões aparecem no baralho importado.
+    const sortedCards = () => [...(cards ?? [])].sort((a, b) => a.chapterIndex - b.chapterIndex || a.createdAt - b.createdAt);
+
+    const topicCount = new Set(cards?.map(card => card.chapterIndex)).size;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-700">
+                <header className="p-4 border-b border-gray-700">
+                    <h3 className="text-lg font-semibold text-white">Revisão de cartões</h3>
+                    {cards && (
+                        <p className="text-sm text-gray-400 mt-1">
+                            {cards.length} cartões em {topicCount} tópico(s) · {queue.length} para revisar hoje · {reviewedCount} revisado(s) nesta sessão
+                        </p>
+                    )}
+                </header>
+                <main className="p-6 overflow-y-auto custom-scrollbar space-y-4">
+                    {error && <div className="bg-red-900/50 text-red-300 p-3 rounded-md border border-red-700"><strong>Erro:</strong> {error}</div>}
+                    {!cards && <LoaderIcon className="w-6 h-6 animate-spin text-gray-500 mx-auto" />}
+                    {cards && currentCard && (
+                        <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-6 text-center">
+                            <p className="text-xs text-indigo-300 mb-3">{currentCard.chapterTitle}</p>
+                            <p className="text-lg text-gray-100">{currentCard.question}</p>
+                            {isAnswerVisible ? (
+                                <>
+                                    <p className="mt-5 pt-5 border-t border-gray-700 text-gray-200">{currentCard.answer}</p>
+                                    <div className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                        {GRADE_OPTIONS.map(option => (
+                                            <button key={option.grade} type="button" onClick={() => handleGrade(option.grade)} className={`px-3 py-2 rounded-md text-sm font-semibold text-white transition ${option.className}`}>
+                                                {option.label}
+                                                <span className="block text-xs font-normal opacity-80">{describeInterval(scheduleReview(currentCard, option.grade).interval)}</span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                </>
+                            ) : (
+                                <button type="button" onClick={() => setIsAnswerVisible(true)} className="mt-6 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm">
+                                    Mostrar resposta
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {cards && !currentCard && (
+                        <p className="text-center text-gray-400 py-6">
+                            {cards.length === 0 ? 'Este plano ainda não tem cartões. Gere os cartões a partir dos tópicos para começar.' : 'Revisão do dia concluída! Volte amanhã para os próximos cartões.'}
+                        </p>
+                    )}
+                    {failures.length > 0 && (
+                        <div className="text-sm text-yellow-300 bg-yellow-900/30 border border-yellow-700/50 rounded-md p-3">
+                            <p className="font-semibold mb-1">Não foi possível gerar os cartões de:</p>
+                            <ul className="list-disc list-inside">
+                                {failures.map(failure => <li key={failure.chapterTitle} title={failure.message}>{failure.chapterTitle}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                </main>
+                <footer className="p-4 border-t border-gray-700 flex justify-between items-center gap-3">
+                    {generation ? (
+                        <div className="flex items-center gap-3 text-sm text-gray-400">
+                            <LoaderIcon className="w-4 h-4 animate-spin" />
+                            <span>Gerando cartões{generation.total > 0 && ` (${generation.completed} de ${generation.total} tópicos)`}...</span>
+                            <button type="button" onClick={handleCancelGeneration} className="flex items-center gap-1 text-gray-300 hover:text-white transition">
+                                <StopIcon className="w-4 h-4" /> Cancelar
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="flex flex-wrap items-center gap-4">
+                            <button type="button" onClick={handleGenerate} disabled={!cards} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white transition disabled:opacity-50" title="Gerar cartões para os tópicos que ainda não têm nenhum">
+                                <SparklesIcon className="w-4 h-4" /> Gerar cartões dos tópicos
+                            </button>
+                            {cards && cards.length > 0 && (
+                                <>
+                                    <button type="button" onClick={() => generateAndDownloadAnkiDeck(sortedCards(), doc.title)} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white transition" title="Arquivo de texto para Arquivo > Importar no Anki, com o título do plano como baralho e os tópicos como tags">
+                                        <CloudArrowDownIcon className="w-4 h-4" /> Anki
+                                    </button>
+                                    <button type="button" onClick={() => generateAndDownloadFlashcardsCsv(sortedCards(), doc.title)} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white transition" title="Planilha CSV com frente, verso, baralho e tópico de cada cartão">
+                                        <CloudArrowDownIcon className="w-4 h-4" /> CSV
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">Fechar</button>
+                </footer>
+            </div>
+        </div>
+    );
+}
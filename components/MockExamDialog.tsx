@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Documentation } from '../types';
+import {
+    ExamFormat, MockExamQuestion, MockExamReport, PASSING_SCORE,
+    buildExamBlueprint, buildExamReport, generateMockExam,
+} from '../utils/mockExam';
+import { QuizQuestionCard } from './QuizQuestionCard';
+import { AcademicCapIcon, ChevronLeftIcon, ChevronRightIcon, LoaderIcon, StarIcon, StopIcon } from './icons';
+
+interface MockExamDialogProps {
+    doc: Documentation;
+    format: ExamFormat;
+    // Indica se o formato é o de uma certificação conhecida ou o formato padrão dos demais planos.
+    isCertification: boolean;
+    onClose: () => void;
+}
+
+type ExamStage =
+    | { name: 'setup' }
+    | { name: 'generating'; completed: number; total: number }
+    | { name: 'running'; endsAt: number }
+    | { name: 'report'; report: MockExamReport; timedOut: boolean };
+
+const formatRemaining = (milliseconds: number) => {
+    const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+export function MockExamDialog({ doc, format, isCertification, onClose }: MockExamDialogProps) {
+    const [questionCount, setQuestionCount] = useState(format.questionCount);
+    const [durationMinutes, setDurationMinutes] = useState(format.durationMinutes);
+    const [stage, setStage] = useState<ExamStage>({ name: 'setup' });
+    const [error, setError] = useState<string | null>(null);
+    const [questions, setQuestions] = useState<MockExamQuestion[]>([]);
+    const [answers, setAnswers] = useState<number[][]>([]);
+    const [flagged, setFlagged] = useState<Set<number>>(new Set());
+    const [currentIndex, setCurrentIndex] = useState(0);
+    // Aviso quando o simulado ficou com menos questões do que o previsto.
+    const [shortfallNotice, setShortfallNotice] = useState<string | null>(null);
+    const [now, setNow] = useState(Date.now());
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const blueprint = useMemo(() => buildExamBlueprint(doc, Math.max(1, questionCount), format), [doc, questionCount, format]);
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const finishExam = (timedOut: boolean) => {
+        setStage({ name: 'report', report: buildExamReport(blueprint.objectives, questions, answers), timedOut });
+    };
+
+    // Relógio da prova: ao fim do tempo, o simulado é encerrado com as respostas dadas até ali.
+    useEffect(() => {
+        if (stage.name !== 'running') return;
+        const intervalId = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(intervalId);
+    }, [stage.name]);
+
+    useEffect(() => {
+        if (stage.name === 'running' && now >= stage.endsAt) finishExam(true);
+    }, [now, stage]);
+
+    const handleStart = async () => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setError(null);
+        setStage({ name: 'generating', completed: 0, total: 0 });
+        try {
+            const { questions: generated, plannedCount, failures } = await generateMockExam(blueprint.objectives, {
+                signal: controller.signal,
+                onProgress: (completed, total) => setStage({ name: 'generating', completed, total }),
+            });
+            if (controller.signal.aborted) return;
+            if (generated.length === 0) {
+                throw new Error(failures[0]?.message ?? "Nenhuma questão foi gerada para este plano.");
+            }
+            setShortfallNotice(generated.length < plannedCount
+                ? `O simulado tem ${generated.length} das ${plannedCount} questões previstas${failures.length > 0 ? `; não foi possível gerar questões de: ${failures.map(failure => failure.topicTitle).join(', ')}` : ''}.`
+                : null);
+            setQuestions(generated);
+            setAnswers(generated.map(() => []));
+            setFlagged(new Set());
+            setCurrentIndex(0);
+            setNow(Date.now());
+            setStage({ name: 'running', endsAt: Date.now() + durationMinutes * 60 * 1000 });
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setError(err instanceof Error ? err.message : "Ocorreu um erro desconhecido.");
+            setStage({ name: 'setup' });
+        } finally {
+            if (abortControllerRef.current === controller) abortControllerRef.current = null;
+        }
+    };
+
+    const handleCancelGeneration = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setStage({ name: 'setup' });
+    };
+
+    const handleFinish = () => {
+        const unanswered = answers.filter(answer => answer.length === 0).length;
+        const pending = [
+            unanswered > 0 ? `${unanswered} questão(ões) sem resposta` : '',
+            flagged.size > 0 ? `${flagged.size} marcada(s) para revisão` : '',
+        ].filter(Boolean).join(' e ');
+        if (pending && !window.confirm(`Você tem ${pending}. Finalizar o simulado mesmo assim?`)) return;
+        finishExam(false);
+    };
+
+    const handleClose = () => {
+        if (stage.name === 'running' && !window.confirm('Sair do simulado? As respostas serão perdidas.')) return;
+        abortControllerRef.current?.abort();
+        onClose();
+    };
+
+    const toggleFlag = (index: number) => {
+        setFlagged(prev => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index);
+            else next.add(index);
+            return next;
+        });
+    };
+
+    const inputClassName = "w-24 bg-gray-800 border border-gray-700 text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+    const renderSetup = () => (
+        <div className="space-y-5">
+            <p className="text-sm text-gray-300">
+                {isCertification
+                    ? `Formato de referência de ${format.name}: ${format.questionCount} questões em ${format.durationMinutes} minutos.`
+                    : 'Este plano não corresponde a uma certificação conhecida; ajuste o tamanho e a duração do simulado se quiser.'}
+            </p>
+            <div className="flex gap-6 flex-wrap">
+                <div>
+                    <label htmlFor="mock-exam-questions" className="block text-xs font-semibold text-gray-400 mb-2">Questões</label>
+                    <input id="mock-exam-questions" type="number" min={1} max={200} value={questionCount} onChange={e => setQuestionCount(Math.min(200, Math.max(1, Number(e.target.value) || 1)))} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="mock-exam-duration" className="block text-xs font-semibold text-gray-400 mb-2">Duração (minutos)</label>
+                    <input id="mock-exam-duration" type="number" min={1} max={300} value={durationMinutes} onChange={e => setDurationMinutes(Math.min(300, Math.max(1, Number(e.target.value) || 1)))} className={inputClassName} />
+                </div>
+            </div>
+            <div>
+                <p className="text-xs font-semibold text-gray-400 mb-2">
+                    {blueprint.weighting === 'domains'
+                        ? 'Questões por domínio do exame (pesos do guia oficial)'
+                        : 'Questões por tópico principal (proporcionais ao volume de conteúdo, pois não há pesos oficiais para este plano)'}
+                </p>
+                <ul className="space-y-1">
+                    {blueprint.objectives.map(objective => (
+                        <li key={objective.title} className="bg-gray-800 px-3 py-2 rounded-md text-sm">
+                            <div className="flex justify-between gap-3">
+                                <span className="text-gray-200 truncate">{objective.title}</span>
+                                <span className="text-gray-400 flex-shrink-0">{objective.questionCount} · {Math.round(objective.weight * 100)}%</span>
+                            </div>
+                            {blueprint.weighting === 'domains' && (
+                                <p className="text-xs text-gray-500 mt-1 truncate" title={objective.chapterTitles.join(', ')}>{objective.chapterTitles.join(', ')}</p>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+                {blueprint.uncoveredDomains.length > 0 && (
+                    <p className="text-xs text-yellow-300 mt-3">Domínios sem tópico correspondente no plano (peso redistribuído): {blueprint.uncoveredDomains.join(', ')}.</p>
+                )}
+                {blueprint.unmappedChapters.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-2">Tópicos fora dos domínios do exame, não incluídos no simulado: {blueprint.unmappedChapters.join(', ')}.</p>
+                )}
+            </div>
+        </div>
+    );
+
+    const renderRunning = () => {
+        const question = questions[currentIndex];
+        return (
+            <div className="space-y-4">
+                <div className="flex flex-wrap gap-1.5">
+                    {questions.map((_, index) => (
+                        <button
+                            key={index}
+                            type="button"
+                            onClick={() => setCurrentIndex(index)}
+                            className={`w-8 h-8 rounded-md text-xs font-semibold transition border ${index === currentIndex ? 'border-indigo-400' : 'border-transparent'} ${flagged.has(index) ? 'bg-yellow-700/60 text-yellow-100' : answers[index]?.length ? 'bg-indigo-700/60 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                            title={flagged.has(index) ? 'Marcada para revisão' : answers[index]?.length ? 'Respondida' : 'Sem resposta'}
+                        >
+                            {index + 1}
+                        </button>
+                    ))}
+                </div>
+                {question && (
+                    <QuizQuestionCard
+                        question={question}
+                        number={currentIndex + 1}
+                        answer={answers[currentIndex] ?? []}
+                        onAnswerChange={answer => setAnswers(prev => prev.map((current, i) => (i === currentIndex ? answer : current)))}
+                        showResult={false}
+                    />
+                )}
+                <div className="flex justify-between items-center">
+                    <button type="button" onClick={() => setCurrentIndex(index => Math.max(0, index - 1))} disabled={currentIndex === 0} className="flex items-center gap-1 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm disabled:opacity-50 transition">
+                        <ChevronLeftIcon className="w-4 h-4" /> Anterior
+                    </button>
+                    <button type="button" onClick={() => toggleFlag(currentIndex)} className={`flex items-center gap-1 px-3 py-2 rounded-md text-sm transition ${flagged.has(currentIndex) ? 'bg-yellow-700/60 text-yellow-100' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}>
+                        <StarIcon className="w-4 h-4" /> {flagged.has(currentIndex) ? 'Desmarcar revisão' : 'Marcar para revisão'}
+                    </button>
+                    <button type="button" onClick={() => setCurrentIndex(index => Math.min(questions.length - 1, index + 1))} disabled={currentIndex === questions.length - 1} className="flex items-center gap-1 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm disabled:opacity-50 transition">
+                        Próxima <ChevronRightIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    const renderReport = (report: MockExamReport, timedOut: boolean) => {
+        const ratio = report.total > 0 ? report.score / report.total : 0;
+        const passed = ratio >= PASSING_SCORE;
+        return (
+            <div className="space-y-6">
+                <div className={`p-4 rounded-lg border ${passed ? 'bg-green-900/30 border-green-700/50' : 'bg-yellow-900/30 border-yellow-700/50'}`}>
+                    <p className={`text-2xl font-bold ${passed ? 'text-green-300' : 'text-yellow-300'}`}>{Math.round(ratio * 100)}%</p>
+                    <p className="text-sm text-gray-300">
+                        {report.score} de {report.total} questões corretas · {passed ? 'acima' : 'abaixo'} da referência de {Math.round(PASSING_SCORE * 100)}%
+                        {timedOut && ' · o tempo acabou'}
+                    </p>
+                </div>
+                <div>
+                    <p className="text-xs font-semibold text-gray-400 mb-2">Desempenho por objetivo</p>
+                    <ul className="space-y-2">
+                        {report.byObjective.map(entry => {
+                            const entryRatio = entry.total > 0 ? entry.correct / entry.total : 0;
+                            return (
+                                <li key={entry.title} className="bg-gray-800 px-3 py-2 rounded-md">
+                                    <div className="flex justify-between gap-3 text-sm">
+                                        <span className="text-gray-200 truncate">{entry.title}</span>
+                                        <span className="text-gray-400 flex-shrink-0">{entry.correct}/{entry.total}</span>
+                                    </div>
+                                    <div className="mt-1.5 h-1.5 rounded-full bg-gray-700 overflow-hidden">
+                                        <div className={`h-full rounded-full ${entryRatio >= PASSING_SCORE ? 'bg-green-400' : 'bg-yellow-400'}`} style={{ width: `${Math.round(entryRatio * 100)}%` }} />
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+                <div>
+                    <p className="text-xs font-semibold text-gray-400 mb-2">Revisão das questões</p>
+                    <ol className="space-y-4">
+                        {questions.map((question, index) => (
+                            <li key={index}>
+                                <QuizQuestionCard question={question} number={index + 1} answer={answers[index] ?? []} onAnswerChange={() => {}} showResult />
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            </div>
+        );
+    };
+
+    const remaining = stage.name === 'running' ? stage.endsAt - now : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-700">
+                <header className="p-4 border-b border-gray-700 flex justify-between items-center gap-4">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white min-w-0">
+                        <AcademicCapIcon className="w-5 h-5 text-indigo-400 flex-shrink-0" /> <span className="truncate">Simulado: {format.name}</span>
+                    </h3>
+                    {stage.name === 'running' && (
+                        <span className={`font-mono text-sm font-semibold px-3 py-1 rounded-full ${remaining < 5 * 60 * 1000 ? 'bg-red-900/50 text-red-300' : 'bg-gray-800 text-gray-200'}`} title="Tempo restante">
+                            {formatRemaining(remaining)}
+                        </span>
+                    )}
+                </header>
+                <main className="p-6 overflow-y-auto custom-scrollbar">
+                    {error && <div className="mb-4 bg-red-900/50 text-red-300 p-3 rounded-md border border-red-700"><strong>Erro:</strong> {error}</div>}
+                    {shortfallNotice && (stage.name === 'running' || stage.name === 'report') && (
+                        <div className="mb-4 text-sm text-yellow-300 bg-yellow-900/30 border border-yellow-700/50 rounded-md p-3">{shortfallNotice}</div>
+                    )}
+                    {stage.name === 'setup' && renderSetup()}
+                    {stage.name === 'generating' && (
+                        <div className="flex flex-col items-center justify-center text-center text-gray-400 py-8">
+                            <LoaderIcon className="w-10 h-10 animate-spin text-indigo-500 mb-4" />
+                            <p>Montando o simulado com IA...{stage.total > 0 && ` (${stage.completed} de ${stage.total} blocos de questões)`}</p>
+                            <button onClick={handleCancelGeneration} className="mt-4 flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition">
+                                <StopIcon className="w-4 h-4" /> Cancelar
+                            </button>
+                        </div>
+                    )}
+                    {stage.name === 'running' && renderRunning()}
+                    {stage.name === 'report' && renderReport(stage.report, stage.timedOut)}
+                </main>
+                <footer className="p-4 border-t border-gray-700 flex justify-end items-center gap-3">
+                    <button onClick={handleClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">
+                        {stage.name === 'running' ? 'Sair' : 'Fechar'}
+                    </button>
+                    {stage.name === 'setup' && (
+                        <button onClick={handleStart} disabled={blueprint.objectives.length === 0} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm disabled:opacity-50">
+                            Iniciar simulado
+                        </button>
+                    )}
+                    {stage.name === 'running' && (
+                        <button onClick={handleFinish} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm">
+                            Finalizar
+                        </button>
+                    )}
+                    {stage.name === 'report' && (
+                        <button onClick={() => setStage({ name: 'setup' })} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm">
+                            Novo simulado
+                        </button>
+                    )}
+                </footer>
+            </div>
+        </div>
+    );
+}
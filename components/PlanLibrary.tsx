@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { StoredStudyPlan } from '../types';
+import { listPlans, getPlan, savePlan, updatePlan, deletePlan } from '../utils/db';
+import { clearPlaybackProgress } from '../utils/playbackProgress';
+import { clearStudyProgress } from '../utils/studyProgress';
+import { BookOpenIcon, PencilIcon, CopyIcon, TrashIcon, CheckIcon, XCircleIcon, LoaderIcon, LinkIcon, FileIcon } from './icons';
+
+interface PlanLibraryProps {
+    onOpenPlan: (plan: StoredStudyPlan) => void;
+}
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const describeSource = (plan: StoredStudyPlan) => {
+    if (plan.source.type === 'url' && plan.source.url) {
+        try {
+            return new URL(plan.source.url).hostname;
+        } catch {
+            return plan.source.url;
+        }
+    }
+    const count = plan.source.files?.length ?? 0;
+    return `${count} arquivo${count === 1 ? '' : 's'}`;
+};
+
+const countChapters = (plan: StoredStudyPlan) => plan.doc.chapters.length;
+
+export function PlanLibrary({ onOpenPlan }: PlanLibraryProps) {
+    const [plans, setPlans] = useState<StoredStudyPlan[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    const refresh = useCallback(async () => {
+        try {
+            setPlans(await listPlans());
+            setError(null);
+        } catch (err) {
+            console.error("Erro ao carregar a biblioteca de planos:", err);
+            setError("Não foi possível carregar seus planos salvos.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const startRename = (plan: StoredStudyPlan) => {
+        setRenamingId(plan.id);
+        setRenameValue(plan.doc.title);
+    };
+
+    const confirmRename = async (plan: StoredStudyPlan) => {
+        const title = renameValue.trim();
+        setRenamingId(null);
+        if (!title || title === plan.doc.title) return;
+        try {
+            // Lê e grava na mesma transação: a preparação offline pode ter salvo resumos depois que a lista foi carregada.
+            await updatePlan(plan.id, current => ({ ...current, doc: { ...current.doc, title }, updatedAt: Date.now() }));
+        } catch (err) {
+            console.error("Erro ao renomear o plano:", err);
+            setError(`Não foi possível renomear o plano "${plan.doc.title}".`);
+            return;
+        }
+        refresh();
+    };
+
+    const handleDuplicate = async (plan: StoredStudyPlan) => {
+        try {
+            // Copia a versão salva, não a da lista, que pode não ter os resumos gerados desde então.
+            const current = await getPlan(plan.id);
+            if (!current) throw new Error("Plano não encontrado.");
+            const now = Date.now();
+            await savePlan({
+                ...current,
+                id: crypto.randomUUID(),
+                doc: { ...current.doc, title: `${current.doc.title} (cópia)` },
+                createdAt: now,
+                updatedAt: now,
+            });
+        } catch (err) {
+            console.error("Erro ao duplicar o plano:", err);
+            setError(`Não foi possível duplicar o plano "${plan.doc.title}".`);
+            return;
+        }
+        refresh();
+    };
+
+    const handleDelete = async (plan: StoredStudyPlan) => {
+        if (!window.confirm(`Excluir o plano "${plan.doc.title}"? Esta ação não pode ser desfeita.`)) return;
+        try {
+            await deletePlan(plan.id);
+        } catch (err) {
+            console.error("Erro ao excluir o plano:", err);
+            setError(`Não foi possível excluir o plano "${plan.doc.title}".`);
+            return;
+        }
+        // O progresso salvo só é apagado depois que o plano foi de fato excluído.
+        clearPlaybackProgress(plan.id);
+        clearStudyProgress(plan.id);
+        refresh();
+    };
+
+    if (isLoading) {
+        return (
+            <div className="w-full max-w-3xl mx-auto px-4 mt-8 flex justify-center text-gray-500">
+                <LoaderIcon className="w-6 h-6 animate-spin" />
+            </div>
+        );
+    }
+
+    if (!error && plans.length === 0) {
+        return null;
+    }
+
+    return (
+        <section className="w-full max-w-3xl mx-auto px-4 mt-8">
+            <div className="bg-gray-900/50 backdrop-blur-sm p-6 rounded-2xl border border-gray-800">
+                <h2 className="flex items-center gap-2 text-lg font-semibold mb-4 text-gray-200">
+                    <BookOpenIcon className="w-5 h-5 text-indigo-400" />
+                    Meus Planos de Estudo
+                </h2>
+                {error && <div className="bg-red-900/30 text-red-300 p-3 rounded-md border border-red-700/50 text-sm">{error}</div>}
+                <ul className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+                    {plans.map(plan => (
+                        <li key={plan.id} className="flex items-center justify-between gap-3 bg-gray-800 p-3 rounded-lg">
+                            <div className="flex-1 min-w-0">
+                                {renamingId === plan.id ? (
+                                    <form onSubmit={(e) => { e.preventDefault(); confirmRename(plan); }} className="flex items-center gap-2">
+                                        <input
+                                            autoFocus
+                                            value={renameValue}
+                                            onChange={e => setRenameValue(e.target.value)}
+                                            onKeyDown={e => { if (e.key === 'Escape') setRenamingId(null); }}
+                                            className="flex-1 bg-gray-900 border border-gray-700 text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                            aria-label="Novo nome do plano"
+                                        />
+                                        <button type="submit" className="p-1 text-green-400 hover:bg-gray-700 rounded-full" title="Salvar nome">
+                                            <CheckIcon className="w-5 h-5" />
+                                        </button>
+                                        <button type="button" onClick={() => setRenamingId(null)} className="p-1 text-gray-400 hover:bg-gray-700 rounded-full" title="Cancelar">
+                                            <XCircleIcon className="w-5 h-5" />
+                                        </button>
+                                    </form>
+                                ) : (
+                                    <button onClick={() => onOpenPlan(plan)} className="block w-full text-left group" title="Abrir plano">
+                                        <p className="text-sm font-semibold text-gray-200 truncate group-hover:text-indigo-300 transition-colors">{plan.doc.title}</p>
+                                        <p className="flex items-center gap-1 text-xs text-gray-500 mt-1 truncate">
+                                            {plan.source.type === 'url' ? <LinkIcon className="w-3 h-3 flex-shrink-0" /> : <FileIcon className="w-3 h-3 flex-shrink-0" />}
+                                            <span>{plan.topic} · {describeSource(plan)} · {countChapters(plan)} tópicos · {formatDate(plan.createdAt)}</span>
+                                        </p>
+                                    </button>
+                                )}
+                            </div>
+                            {renamingId !== plan.id && (
+                                <div className="flex items-center gap-1 flex-shrink-0">
+                                    <button onClick={() => startRename(plan)} className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-700 rounded-full transition" title="Renomear">
+                                        <PencilIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => handleDuplicate(plan)} className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-700 rounded-full transition" title="Duplicar">
+                                        <CopyIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => handleDelete(plan)} className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-full transition" title="Excluir">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </section>
+    );
+}
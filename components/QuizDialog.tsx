@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Chapter, QuizAttempt, QuizQuestion } from '../types';
+import { getAIProvider } from '../services/aiProvider';
+import { listQuizAttempts, saveQuizAttempt } from '../utils/db';
+import { scoreQuiz } from '../utils/quiz';
+import { QuizQuestionCard } from './QuizQuestionCard';
+import { AcademicCapIcon, LoaderIcon, StopIcon } from './icons';
+
+interface QuizDialogProps {
+    // Sem um plano salvo, o questionário funciona normalmente, mas as tentativas não entram no histórico.
+    planId: string | null;
+    chapterIndex: number;
+    chapter: Chapter;
+    onGoToSection: (section: string) => void;
+    onClose: () => void;
+}
+
+const QUIZ_QUESTION_COUNT = 5;
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export function QuizDialog({ planId, chapterIndex, chapter, onGoToSection, onClose }: QuizDialogProps) {
+    const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+    const [answers, setAnswers] = useState<number[][]>([]);
+    const [isSubmitted, setIsSubmitted] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [history, setHistory] = useState<QuizAttempt[]>([]);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const refreshHistory = useCallback(async () => {
+        if (!planId) return;
+        try {
+            const attempts = await listQuizAttempts(planId);
+            setHistory(attempts.filter(attempt => attempt.chapterIndex === chapterIndex));
+        } catch (err) {
+            console.error("Erro ao carregar o histórico de questionários:", err);
+        }
+    }, [planId, chapterIndex]);
+
+    const generateQuiz = useCallback(async () => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsLoading(true);
+        setError(null);
+        setQuestions(null);
+        setIsSubmitted(false);
+        try {
+            const generated = await getAIProvider().generateChapterQuiz(chapter.title, chapter.content, QUIZ_QUESTION_COUNT, controller.signal);
+            if (controller.signal.aborted) return;
+            setQuestions(generated);
+            setAnswers(generated.map(() => []));
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setError(err instanceof Error ? err.message : "Ocorreu um erro desconhecido.");
+        } finally {
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setIsLoading(false);
+            }
+        }
+    }, [chapter.title, chapter.content]);
+
+    useEffect(() => {
+        generateQuiz();
+        refreshHistory();
+        return () => abortControllerRef.current?.abort();
+    }, [generateQuiz, refreshHistory]);
+
+    const handleSubmit = async () => {
+        if (!questions) return;
+        setIsSubmitted(true);
+        if (!planId) return;
+        const attempt: QuizAttempt = {
+            id: crypto.randomUUID(),
+            planId,
+            chapterIndex,
+            chapterTitle: chapter.title,
+            questions,
+            answers,
+            score: scoreQuiz(questions, answers),
+            completedAt: Date.now(),
+        };
+        await saveQuizAttempt(attempt).catch(console.error);
+        refreshHistory();
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        onClose();
+    };
+
+    const allAnswered = answers.length > 0 && answers.every(answer => answer.length > 0);
+    const score = questions && isSubmitted ? scoreQuiz(questions, answers) : null;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-700">
+                <header className="p-4 border-b border-gray-700 flex justify-between items-center gap-4">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <AcademicCapIcon className="w-5 h-5 text-indigo-400" /> Questionário: <span className="text-indigo-400">{chapter.title}</span>
+                    </h3>
+                    {questions && score !== null && (
+                        <span className={`text-sm font-semibold px-3 py-1 rounded-full ${score / questions.length >= 0.7 ? 'bg-green-900/50 text-green-300' : 'bg-yellow-900/50 text-yellow-300'}`}>
+                            {score} de {questions.length} ({Math.round((score / questions.length) * 100)}%)
+                        </span>
+                    )}
+                </header>
+                <main className="p-6 overflow-y-auto custom-scrollbar space-y-4">
+                    {history.length > 0 && (
+                        <div className="text-xs text-gray-400">
+                            <p className="font-semibold text-gray-300 mb-1">Tentativas anteriores</p>
+                            <ul className="flex flex-wrap gap-2">
+                                {history.slice(0, 5).map(attempt => (
+                                    <li key={attempt.id} className="bg-gray-800 px-2 py-1 rounded-md">
+                                        {attempt.score}/{attempt.questions.length} · {formatDate(attempt.completedAt)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {isLoading && (
+                        <div className="flex flex-col items-center justify-center text-center text-gray-400 py-8">
+                            <LoaderIcon className="w-10 h-10 animate-spin text-indigo-500 mb-4" />
+                            <p>Gerando questões com IA...</p>
+                            <button onClick={handleCancel} className="mt-4 flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm px-3 py-2 rounded-md transition">
+                                <StopIcon className="w-4 h-4" /> Cancelar
+                            </button>
+                        </div>
+                    )}
+                    {error && <div className="bg-red-900/50 text-red-300 p-3 rounded-md border border-red-700"><strong>Erro:</strong> {error}</div>}
+                    {questions && (
+                        <ol className="space-y-4">
+                            {questions.map((question, index) => (
+                                <li key={index}>
+                                    <QuizQuestionCard
+                                        question={question}
+                                        number={index + 1}
+                                        answer={answers[index] ?? []}
+                                        onAnswerChange={answer => setAnswers(prev => prev.map((current, i) => (i === index ? answer : current)))}
+                                        showResult={isSubmitted}
+                                        onGoToSection={onGoToSection}
+                                    />
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </main>
+                <footer className="p-4 border-t border-gray-700 flex justify-between items-center">
+                    <button onClick={generateQuiz} disabled={isLoading} className="text-sm text-gray-300 hover:text-white transition disabled:opacity-50">
+                        Novas questões
+                    </button>
+                    <div className="flex items-center gap-3">
+                        <button onClick={handleCancel} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">Fechar</button>
+                        {!isSubmitted && (
+                            <button onClick={handleSubmit} disabled={!questions || !allAnswered} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm disabled:opacity-50" title={allAnswered ? 'Corrigir as respostas' : 'Responda todas as questões para corrigir'}>
+                                Corrigir
+                            </button>
+                        )}
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,82 @@
+import React from 'react';
+import { QuizQuestion } from '../types';
+import { isAnswerCorrect } from '../utils/quiz';
+import { CheckIcon, ChevronRightIcon, XCircleIcon } from './icons';
+
+interface QuizQuestionCardProps {
+    question: QuizQuestion;
+    number: number;
+    answer: number[];
+    onAnswerChange: (answer: number[]) => void;
+    // Depois da correção, as alternativas ficam bloqueadas e a explicação é exibida.
+    showResult: boolean;
+    onGoToSection?: (section: string) => void;
+}
+
+const OPTION_LETTERS = 'ABCDEFGH';
+
+export function QuizQuestionCard({ question, number, answer, onAnswerChange, showResult, onGoToSection }: QuizQuestionCardProps) {
+    const isMultiple = question.type === 'multiple';
+    const isCorrect = isAnswerCorrect(question, answer);
+
+    const handleToggle = (optionIndex: number) => {
+        if (showResult) return;
+        if (!isMultiple) {
+            onAnswerChange([optionIndex]);
+            return;
+        }
+        onAnswerChange(answer.includes(optionIndex)
+            ? answer.filter(option => option !== optionIndex)
+            : [...answer, optionIndex].sort((a, b) => a - b));
+    };
+
+    const optionClassName = (optionIndex: number) => {
+        const isSelected = answer.includes(optionIndex);
+        if (!showResult) {
+            return isSelected ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800 hover:border-gray-500';
+        }
+        if (question.correctOptions.includes(optionIndex)) return 'border-green-600 bg-green-900/30';
+        return isSelected ? 'border-red-600 bg-red-900/30' : 'border-gray-700 bg-gray-800 opacity-70';
+    };
+
+    return (
+        <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+            <div className="flex items-start justify-between gap-3 mb-3">
+                <p className="text-sm text-gray-100 font-medium">
+                    <span className="text-indigo-400 mr-1">{number}.</span> {question.question}
+                </p>
+                {showResult && (isCorrect
+                    ? <CheckIcon className="w-5 h-5 text-green-400 flex-shrink-0" />
+                    : <XCircleIcon className="w-5 h-5 text-red-400 flex-shrink-0" />)}
+            </div>
+            {isMultiple && <p className="text-xs text-gray-400 mb-2">Marque todas as alternativas corretas.</p>}
+            <ul className="space-y-2">
+                {question.options.map((option, optionIndex) => (
+                    <li key={optionIndex}>
+                        <label className={`flex items-start gap-3 px-3 py-2 rounded-md border text-sm text-gray-200 transition ${showResult ? '' : 'cursor-pointer'} ${optionClassName(optionIndex)}`}>
+                            <input
+                                type={isMultiple ? 'checkbox' : 'radio'}
+                                name={`quiz-question-${number}`}
+                                checked={answer.includes(optionIndex)}
+                                onChange={() => handleToggle(optionIndex)}
+                                disabled={showResult}
+                                className="mt-0.5 accent-indigo-600"
+                            />
+                            <span><span className="font-semibold text-gray-400 mr-1">{OPTION_LETTERS[optionIndex] ?? optionIndex + 1})</span> {option}</span>
+                        </label>
+                    </li>
+                ))}
+            </ul>
+            {showResult && (
+                <div className="mt-3 text-sm text-gray-300 bg-gray-900/60 border border-gray-700 rounded-md p-3">
+                    <p>{question.explanation}</p>
+                    {question.section && onGoToSection && (
+                        <button type="button" onClick={() => onGoToSection(question.section!)} className="mt-2 flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200 transition">
+                            Revisar a seção "{question.section}" <ChevronRightIcon className="w-3 h-3" />
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { AISettings } from '../types';
+import { DEFAULT_AI_SETTINGS, DEFAULT_AUDIO_CACHE_QUOTA_MB, loadAISettings, saveAISettings, loadAudioCacheQuotaMB, saveAudioCacheQuotaMB } from '../utils/settings';
+import { enforceAudioCacheQuota } from '../utils/speechCache';
+import { AudioCacheSettings } from './AudioCacheSettings';
+import { Cog6ToothIcon } from './icons';
+
+interface SettingsPanelProps {
+    onClose: () => void;
+}
+
+const MODEL_SUGGESTIONS = ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+const TTS_MODEL_SUGGESTIONS = ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'];
+
+type NumericSetting = 'planMaxOutputTokens' | 'planThinkingBudget' | 'summaryMaxOutputTokens' | 'summaryThinkingBudget';
+
+const inputClassName = "w-full bg-gray-800 border border-gray-700 text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+const labelClassName = "block text-xs font-semibold text-gray-400 mb-1";
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+    const [settings, setSettings] = useState<AISettings>(loadAISettings);
+    const [audioCacheQuotaMB, setAudioCacheQuotaMB] = useState<number>(loadAudioCacheQuotaMB);
+    const [showApiKey, setShowApiKey] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateText = (key: 'apiKey' | 'planModel' | 'summaryModel' | 'ttsModel', value: string) => {
+        setSettings(prev => ({ ...prev, [key]: value }));
+    };
+
+    const updateNumber = (key: NumericSetting, value: string) => {
+        setSettings(prev => ({ ...prev, [key]: value === '' ? NaN : Number(value) }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const invalidNumber = (['planMaxOutputTokens', 'planThinkingBudget', 'summaryMaxOutputTokens', 'summaryThinkingBudget'] as NumericSetting[])
+            .some(key => !Number.isInteger(settings[key]) || settings[key] < 0);
+        if (invalidNumber || settings.planMaxOutputTokens === 0 || settings.summaryMaxOutputTokens === 0) {
+            setError("Os limites de tokens devem ser números inteiros positivos (o orçamento de raciocínio pode ser 0).");
+            return;
+        }
+        if (!settings.planModel.trim() || !settings.summaryModel.trim() || !settings.ttsModel.trim()) {
+            setError("Informe os modelos usados para planos, resumos e áudio.");
+            return;
+        }
+        if (!(audioCacheQuotaMB > 0)) {
+            setError("O limite do cache de áudio deve ser maior que zero.");
+            return;
+        }
+        try {
+            saveAISettings({
+                ...settings,
+                apiKey: settings.apiKey.trim(),
+                planModel: settings.planModel.trim(),
+                summaryModel: settings.summaryModel.trim(),
+                ttsModel: settings.ttsModel.trim(),
+            });
+            saveAudioCacheQuotaMB(audioCacheQuotaMB);
+            // Um limite menor passa a valer imediatamente.
+            enforceAudioCacheQuota(audioCacheQuotaMB).catch(console.error);
+            onClose();
+        } catch (err) {
+            console.error("Falha ao salvar as configurações de IA no localStorage", err);
+            setError("Não foi possível salvar as configurações neste navegador.");
+        }
+    };
+
+    // Restaura modelos e orçamentos, mantendo a chave já informada.
+    const handleRestoreDefaults = () => {
+        setSettings(prev => ({ ...DEFAULT_AI_SETTINGS, apiKey: prev.apiKey }));
+        setAudioCacheQuotaMB(DEFAULT_AUDIO_CACHE_QUOTA_MB);
+        setError(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <form onSubmit={handleSubmit} className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-700">
+                <header className="p-4 border-b border-gray-700">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <Cog6ToothIcon className="w-5 h-5 text-indigo-400" /> Configurações
+                    </h3>
+                </header>
+                <main className="p-6 overflow-y-auto custom-scrollbar space-y-6">
+                    <section>
+                        <label htmlFor="settings-api-key" className={labelClassName}>Chave da API do Gemini</label>
+                        <div className="flex gap-2">
+                            <input
+                                id="settings-api-key"
+                                type={showApiKey ? 'text' : 'password'}
+                                value={settings.apiKey}
+                                onChange={e => updateText('apiKey', e.target.value)}
+                                placeholder="Cole aqui sua chave"
+                                autoComplete="off"
+                                spellCheck={false}
+                                className={inputClassName}
+                            />
+                            <button type="button" onClick={() => setShowApiKey(prev => !prev)} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md text-sm transition">
+                                {showApiKey ? 'Ocultar' : 'Mostrar'}
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">A chave fica salva apenas neste navegador e é enviada somente para a API do Gemini.</p>
+                    </section>
+
+                    <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label htmlFor="settings-plan-model" className={labelClassName}>Modelo dos planos</label>
+                            <input id="settings-plan-model" list="settings-model-suggestions" value={settings.planModel} onChange={e => updateText('planModel', e.target.value)} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="settings-summary-model" className={labelClassName}>Modelo dos resumos</label>
+                            <input id="settings-summary-model" list="settings-model-suggestions" value={settings.summaryModel} onChange={e => updateText('summaryModel', e.target.value)} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="settings-tts-model" className={labelClassName}>Modelo de voz (TTS)</label>
+                            <input id="settings-tts-model" list="settings-tts-model-suggestions" value={settings.ttsModel} onChange={e => updateText('ttsModel', e.target.value)} className={inputClassName} />
+                        </div>
+                        <datalist id="settings-model-suggestions">
+                            {MODEL_SUGGESTIONS.map(model => <option key={model} value={model} />)}
+                        </datalist>
+                        <datalist id="settings-tts-model-suggestions">
+                            {TTS_MODEL_SUGGESTIONS.map(model => <option key={model} value={model} />)}
+                        </datalist>
+                    </section>
+
+                    <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="settings-plan-max-tokens" className={labelClassName}>Plano: limite de tokens de saída</label>
+                            <input id="settings-plan-max-tokens" type="number" min={1} step={1} value={Number.isNaN(settings.planMaxOutputTokens) ? '' : settings.planMaxOutputTokens} onChange={e => updateNumber('planMaxOutputTokens', e.target.value)} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="settings-plan-thinking" className={labelClassName}>Plano: orçamento de raciocínio</label>
+                            <input id="settings-plan-thinking" type="number" min={0} step={1} value={Number.isNaN(settings.planThinkingBudget) ? '' : settings.planThinkingBudget} onChange={e => updateNumber('planThinkingBudget', e.target.value)} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="settings-summary-max-tokens" className={labelClassName}>Resumo: limite de tokens de saída</label>
+                            <input id="settings-summary-max-tokens" type="number" min={1} step={1} value={Number.isNaN(settings.summaryMaxOutputTokens) ? '' : settings.summaryMaxOutputTokens} onChange={e => updateNumber('summaryMaxOutputTokens', e.target.value)} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="settings-summary-thinking" className={labelClassName}>Resumo: orçamento de raciocínio</label>
+                            <input id="settings-summary-thinking" type="number" min={0} step={1} value={Number.isNaN(settings.summaryThinkingBudget) ? '' : settings.summaryThinkingBudget} onChange={e => updateNumber('summaryThinkingBudget', e.target.value)} className={inputClassName} />
+                        </div>
+                    </section>
+
+                    <section className="border-t border-gray-800 pt-6">
+                        <h4 className="text-sm font-semibold text-gray-200 mb-3">Cache de áudio</h4>
+                        <div className="mb-4 max-w-xs">
+                            <label htmlFor="settings-audio-cache-quota" className={labelClassName}>Limite do cache (MB)</label>
+                            <input id="settings-audio-cache-quota" type="number" min={1} step={1} value={Number.isNaN(audioCacheQuotaMB) ? '' : audioCacheQuotaMB} onChange={e => setAudioCacheQuotaMB(e.target.value === '' ? NaN : Number(e.target.value))} className={inputClassName} />
+                            <p className="text-xs text-gray-500 mt-2">Acima do limite, os trechos ouvidos há mais tempo são descartados.</p>
+                        </div>
+                        <AudioCacheSettings quotaMB={audioCacheQuotaMB} />
+                    </section>
+
+                    {error && <div className="bg-red-900/30 text-red-300 p-3 rounded-md border border-red-700/50 text-sm">{error}</div>}
+                </main>
+                <footer className="p-4 border-t border-gray-700 flex justify-between items-center">
+                    <button type="button" onClick={handleRestoreDefaults} className="text-sm text-gray-400 hover:text-gray-200 transition">Restaurar padrões</button>
+                    <div className="flex items-center gap-3">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">Cancelar</button>
+                        <button type="submit" className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm">Salvar</button>
+                    </div>
+                </footer>
+            </form>
+        </div>
+    );
+}
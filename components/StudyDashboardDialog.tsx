@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { Documentation } from '../types';
+import { listQuizAttempts } from '../utils/db';
+import { bestQuizScores, buildStudyDashboard, formatStudyTime, PlanStudyProgress } from '../utils/studyProgress';
+import { LoaderIcon } from './icons';
+
+interface StudyDashboardDialogProps {
+    planId: string;
+    doc: Documentation;
+    studyProgress: PlanStudyProgress;
+    listenedProgress: Record<number, number>;
+    onSelectChapter: (chapterIndex: number) => void;
+    onClose: () => void;
+}
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+const ProgressBar = ({ fraction }: { fraction: number }) => (
+    <span className="block h-2 rounded-full bg-gray-700/70 overflow-hidden">
+        <span className={`block h-full rounded-full ${fraction >= 1 ? 'bg-green-400' : 'bg-indigo-400'}`} style={{ width: percent(fraction) }} />
+    </span>
+);
+
+// Painel do plano: conclusão de cada tópico principal e prontidão geral para a prova.
+export function StudyDashboardDialog({ planId, doc, studyProgress, listenedProgress, onSelectChapter, onClose }: StudyDashboardDialogProps) {
+    const [quizScores, setQuizScores] = useState<Record<number, number> | null>(null);
+
+    useEffect(() => {
+        listQuizAttempts(planId)
+            .then(attempts => setQuizScores(bestQuizScores(attempts)))
+            .catch(err => {
+                console.error("Erro ao carregar o histórico de questionários:", err);
+                setQuizScores({});
+            });
+    }, [planId]);
+
+    const dashboard = quizScores ? buildStudyDashboard(doc, studyProgress, quizScores, listenedProgress) : null;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-700">
+                <header className="p-4 border-b border-gray-700">
+                    <h3 className="text-lg font-semibold text-white">Progresso de: <span className="text-indigo-400">{doc.title}</span></h3>
+                </header>
+                <main className="p-6 overflow-y-auto custom-scrollbar space-y-6">
+                    {!dashboard ? (
+                        <LoaderIcon className="w-6 h-6 animate-spin text-gray-500 mx-auto" />
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                                <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-3" title="Combina a etapa de estudo (50%), as notas dos questionários (30%) e o áudio ouvido (20%)">
+                                    <p className={`text-3xl font-bold ${dashboard.overall.readiness >= 0.7 ? 'text-green-400' : 'text-indigo-300'}`}>{percent(dashboard.overall.readiness)}</p>
+                                    <p className="text-xs text-gray-400 mt-1">Prontidão</p>
+                                </div>
+                                <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-3">
+                                    <p className="text-3xl font-bold text-gray-100">{percent(dashboard.overall.completion)}</p>
+                                    <p className="text-xs text-gray-400 mt-1">Conclusão</p>
+                                </div>
+                                <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-3">
+                                    <p className="text-3xl font-bold text-gray-100">{dashboard.overall.quizScore === null ? '—' : percent(dashboard.overall.quizScore)}</p>
+                                    <p className="text-xs text-gray-400 mt-1">Média nos questionários</p>
+                                </div>
+                                <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-3">
+                                    <p className="text-3xl font-bold text-gray-100">{formatStudyTime(dashboard.overall.timeSpentMs)}</p>
+                                    <p className="text-xs text-gray-400 mt-1">Tempo de estudo</p>
+                                </div>
+                            </div>
+                            <ul className="space-y-2">
+                                {dashboard.objectives.map(objective => (
+                                    <li key={objective.chapterIndex}>
+                                        <button
+                                            type="button"
+                                            onClick={() => onSelectChapter(objective.chapterIndex)}
+                                            className="w-full text-left p-3 rounded-lg bg-gray-800/40 hover:bg-gray-800 border border-gray-700/60 transition"
+                                            title="Abrir este tópico"
+                                        >
+                                            <div className="flex justify-between items-baseline gap-3 mb-2">
+                                                <span className="text-sm font-semibold text-gray-100">{objective.title}</span>
+                                                <span className="text-sm font-bold text-indigo-300 flex-shrink-0">{percent(objective.completion)}</span>
+                                            </div>
+                                            <ProgressBar fraction={objective.completion} />
+                                            <p className="text-xs text-gray-400 mt-2">
+                                                {objective.masteredCount} de {objective.topicCount} dominado(s) · {formatStudyTime(objective.timeSpentMs)}
+                                                {' · '}Questionários: {objective.quizScore === null ? 'nenhum' : percent(objective.quizScore)}
+                                                {' · '}Áudio: {percent(objective.listened)}
+                                            </p>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </main>
+                <footer className="p-4 border-t border-gray-700 flex justify-end">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">Fechar</button>
+                </footer>
+            </div>
+        </div>
+    );
+}
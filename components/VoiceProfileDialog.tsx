@@ -0,0 +1,202 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { PlanLanguage, VoiceProfile } from '../types';
+import { decode, decodeAudioData } from '../utils/audioUtils';
+import { getSpeechClip } from '../utils/speechCache';
+import { AVAILABLE_VOICES, LANGUAGE_LABELS, PLAYBACK_SPEEDS, VOICE_SAMPLE_TEXT } from '../utils/voiceProfiles';
+import { LoaderIcon, PlayIcon, StopIcon, VolumeUpIcon } from './icons';
+
+export type VoiceProfileScope = 'plan' | 'language' | 'default';
+
+interface VoiceProfileDialogProps {
+    language: PlanLanguage;
+    planProfile: VoiceProfile | null;
+    languageProfile: VoiceProfile | null;
+    defaultProfile: VoiceProfile;
+    // `profile` nulo remove o perfil do plano ou do idioma (o perfil padrão não pode ser removido).
+    onSave: (scope: VoiceProfileScope, profile: VoiceProfile | null) => void;
+    onClose: () => void;
+}
+
+const SAMPLE_RATE = 24000;
+
+export function VoiceProfileDialog({ language, planProfile, languageProfile, defaultProfile, onSave, onClose }: VoiceProfileDialogProps) {
+    const profileFor = (scope: VoiceProfileScope) => {
+        if (scope === 'plan') return planProfile;
+        if (scope === 'language') return languageProfile;
+        return defaultProfile;
+    };
+    // O perfil em uso pelo plano, com a mesma prioridade aplicada na narração.
+    const activeScope: VoiceProfileScope = planProfile ? 'plan' : languageProfile ? 'language' : 'default';
+    const activeProfile = profileFor(activeScope) ?? defaultProfile;
+
+    const [scope, setScope] = useState<VoiceProfileScope>(activeScope);
+    const [voice, setVoice] = useState(activeProfile.voice);
+    const [speed, setSpeed] = useState(activeProfile.speed);
+    const [preview, setPreview] = useState<{ voice: string; status: 'loading' | 'playing' } | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const previewAbortControllerRef = useRef<AbortController | null>(null);
+
+    const stopPreview = () => {
+        previewAbortControllerRef.current?.abort();
+        previewAbortControllerRef.current = null;
+        if (sourceRef.current) {
+            sourceRef.current.onended = null;
+            try { sourceRef.current.stop(); } catch (e) { /* já parado */ }
+            sourceRef.current = null;
+        }
+        setPreview(null);
+    };
+
+    useEffect(() => () => {
+        previewAbortControllerRef.current?.abort();
+        try { sourceRef.current?.stop(); } catch (e) { /* já parado */ }
+        audioContextRef.current?.close().catch(console.error);
+    }, []);
+
+    const handlePreview = async (previewVoice: string) => {
+        const isSameVoice = preview?.voice === previewVoice;
+        stopPreview();
+        if (isSameVoice) return;
+
+        const controller = new AbortController();
+        previewAbortControllerRef.current = controller;
+        setPreview({ voice: previewVoice, status: 'loading' });
+        setPreviewError(null);
+        try {
+            const base64Audio = await getSpeechClip(VOICE_SAMPLE_TEXT[language], previewVoice, controller.signal);
+            if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+            const context = audioContextRef.current;
+            const buffer = await decodeAudioData(decode(base64Audio), context, SAMPLE_RATE, 1);
+            if (controller.signal.aborted) return;
+
+            const source = context.createBufferSource();
+            source.buffer = buffer;
+            source.playbackRate.value = speed;
+            source.connect(context.destination);
+            source.onended = () => {
+                if (sourceRef.current === source) {
+                    sourceRef.current = null;
+                    setPreview(null);
+                }
+            };
+            sourceRef.current = source;
+            source.start();
+            setPreview({ voice: previewVoice, status: 'playing' });
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error("Erro ao carregar a prévia da voz:", err);
+            setPreviewError(err instanceof Error ? err.message : "Não foi possível carregar a prévia da voz.");
+            setPreview(null);
+        } finally {
+            if (previewAbortControllerRef.current === controller) previewAbortControllerRef.current = null;
+        }
+    };
+
+    const handleScopeChange = (newScope: VoiceProfileScope) => {
+        setScope(newScope);
+        const profile = profileFor(newScope);
+        if (profile) {
+            setVoice(profile.voice);
+            setSpeed(profile.speed);
+        }
+    };
+
+    const handleSave = () => {
+        onSave(scope, { voice, speed });
+        onClose();
+    };
+
+    const handleRemove = () => {
+        onSave(scope, null);
+        onClose();
+    };
+
+    const scopeOptions: { value: VoiceProfileScope; label: string }[] = [
+        { value: 'plan', label: 'Somente este plano' },
+        { value: 'language', label: `Planos em ${LANGUAGE_LABELS[language]}` },
+        { value: 'default', label: 'Padrão' },
+    ];
+    const canRemove = scope !== 'default' && profileFor(scope) !== null;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-700">
+                <header className="p-4 border-b border-gray-700">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <VolumeUpIcon className="w-5 h-5 text-indigo-400" /> Voz da narração
+                    </h3>
+                    <p className="text-sm text-gray-400 mt-1">
+                        Plano em {LANGUAGE_LABELS[language]} · em uso: {scopeOptions.find(option => option.value === activeScope)?.label.toLowerCase()} ({activeProfile.voice}, {activeProfile.speed}x)
+                    </p>
+                </header>
+                <main className="p-6 overflow-y-auto custom-scrollbar space-y-5">
+                    <div>
+                        <p className="block text-xs font-semibold text-gray-400 mb-2">Aplicar a</p>
+                        <div className="flex gap-2 flex-wrap">
+                            {scopeOptions.map(option => (
+                                <button
+                                    key={option.value}
+                                    type="button"
+                                    onClick={() => handleScopeChange(option.value)}
+                                    className={`px-3 py-2 rounded-md text-sm font-medium transition ${scope === option.value ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label htmlFor="voice-profile-speed" className="block text-xs font-semibold text-gray-400 mb-2">Velocidade</label>
+                        <select
+                            id="voice-profile-speed"
+                            value={speed}
+                            onChange={e => setSpeed(parseFloat(e.target.value))}
+                            className="bg-gray-800 border border-gray-700 text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        >
+                            {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+                        </select>
+                    </div>
+
+                    <div>
+                        <p className="block text-xs font-semibold text-gray-400 mb-2">Voz</p>
+                        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {AVAILABLE_VOICES.map(option => (
+                                <li key={option.name} className={`flex items-center justify-between gap-2 px-3 py-2 rounded-md border transition ${voice === option.name ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800'}`}>
+                                    <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer flex-grow min-w-0">
+                                        <input type="radio" name="voice-profile-voice" checked={voice === option.name} onChange={() => setVoice(option.name)} className="accent-indigo-600" />
+                                        <span className="font-medium">{option.name}</span>
+                                        <span className="text-xs text-gray-400 truncate">{option.description}</span>
+                                    </label>
+                                    <button
+                                        type="button"
+                                        onClick={() => handlePreview(option.name)}
+                                        className="p-1.5 rounded-full text-gray-300 hover:bg-gray-700 transition"
+                                        title={preview?.voice === option.name ? 'Parar a prévia' : `Ouvir uma prévia da voz ${option.name}`}
+                                    >
+                                        {preview?.voice === option.name
+                                            ? (preview.status === 'loading' ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <StopIcon className="w-4 h-4" />)
+                                            : <PlayIcon className="w-4 h-4" />}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    {previewError && <div className="bg-red-900/30 text-red-300 p-3 rounded-md border border-red-700/50 text-sm">{previewError}</div>}
+                </main>
+                <footer className="p-4 border-t border-gray-700 flex justify-between items-center">
+                    {canRemove ? (
+                        <button type="button" onClick={handleRemove} className="text-sm text-gray-400 hover:text-gray-200 transition">Remover este perfil</button>
+                    ) : <span />}
+                    <div className="flex items-center gap-3">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md font-semibold transition text-sm">Cancelar</button>
+                        <button type="button" onClick={handleSave} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md font-semibold transition text-sm">Salvar</button>
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+}
@@ -1,18 +1,27 @@
 
 // FIX: Import React to resolve 'Cannot find namespace React' error.
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { generateSpeech } from '../services/geminiService';
-import { decode, decodeAudioData } from '../utils/audioUtils';
-import { getAudio, storeAudio } from '../utils/db';
-import { AudioConfig } from '../types';
+import { decode, decodeAudioData, createSilentWav } from '../utils/audioUtils';
+import { getSpeechClip } from '../utils/speechCache';
+import { splitIntoSpeechChunks, prepareSpeechParagraphs, countNarratedParagraphs, SpeechChunk, DEFAULT_SPEECH_OPTIONS } from '../utils/speechUtils';
+import { loadPlaybackProgress, savePlaybackProgress, PlanPlaybackProgress, EMPTY_PLAYBACK_PROGRESS } from '../utils/playbackProgress';
+import { AudioConfig, VoiceProfile } from '../types';
 
 type AudioStatus = 'idle' | 'loading' | 'playing' | 'paused' | 'error';
 
+const SAMPLE_RATE = 24000;
+// Pequena antecedência no agendamento, para que o primeiro buffer não comece "no passado" do AudioContext.
+const SCHEDULE_LEAD_SECONDS = 0.05;
+
 export type AudioState = {
     status: AudioStatus;
     trackInfo: {
         chapterIndex: number | null;
         paragraphIndex: number | null;
+        // Total de parágrafos do texto narrado, para indicar qual deles está sendo falado.
+        paragraphCount?: number;
+        // Parágrafos com texto narrado (sem os blocos ignorados), base da fração ouvida do tópico.
+        narratedParagraphCount?: number;
         chapterTitle?: string;
         paragraphContent?: string;
     },
@@ -24,9 +33,35 @@ export type AudioState = {
     errorMessage?: string;
 };
 
+type AudioPlayerOptions = {
+    // Plano aberto, para que os clipes gerados sejam associados a ele no cache.
+    planId?: string | null;
+    // Perfil de voz do plano (ou do idioma dele), com prioridade sobre a voz e a velocidade padrão.
+    voiceProfile?: VoiceProfile | null;
+    // Exibido nos controles de mídia do sistema junto com o título do tópico.
+    planTitle?: string;
+};
+
+// Navegação entre faixas acionada pelos controles de mídia do sistema (`null` desativa o botão).
+export type TrackNavigation = {
+    onNext: (() => void) | null;
+    onPrevious: (() => void) | null;
+};
+
+// Resumos não contam como escuta do tópico nem servem como ponto de retomada.
+const isSummaryTrack = (chapterTitle?: string) => !chapterTitle || chapterTitle.startsWith('Resumo:');
+
+const hasMediaSession = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+const setMediaAction = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+    try {
+        navigator.mediaSession.setActionHandler(action, handler);
+    } catch (e) { /* Ação não suportada por este navegador */ }
+};
+
 // O hook agora gerencia internamente o estado de configuração de áudio e sua persistência.
-export function useAudioPlayer() {
-    // Gerencia a configuração de áudio (voz, velocidade) e a carrega/salva no localStorage.
+export function useAudioPlayer({ planId = null, voiceProfile = null, planTitle }: AudioPlayerOptions = {}) {
+    // Gerencia a configuração de áudio (voz, velocidade, narração) e a carrega/salva no localStorage.
     const [audioConfig, setAudioConfig] = useState<AudioConfig>(() => {
         try {
             const savedConfig = localStorage.getItem('cortexAudioConfig');
@@ -34,13 +69,13 @@ export function useAudioPlayer() {
                 const parsed = JSON.parse(savedConfig);
                 // Validação básica para garantir que os dados do localStorage são válidos.
                 if (typeof parsed.voice === 'string' && typeof parsed.speed === 'number') {
-                    return parsed;
+                    return { ...parsed, speech: { ...DEFAULT_SPEECH_OPTIONS, ...parsed.speech } };
                 }
             }
         } catch (e) { 
             console.error("Falha ao carregar configuração de áudio do localStorage", e);
         }
-        return { voice: 'Kore', speed: 1 }; // Configuração padrão.
+        return { voice: 'Kore', speed: 1, speech: DEFAULT_SPEECH_OPTIONS }; // Configuração padrão.
     });
 
     // Salva as configurações no localStorage sempre que elas mudam.
@@ -52,6 +87,11 @@ export function useAudioPlayer() {
         }
     }, [audioConfig]);
 
+    const voice = voiceProfile?.voice ?? audioConfig.voice;
+    const speed = voiceProfile?.speed ?? audioConfig.speed;
+    const hasVoiceProfileRef = useRef(voiceProfile !== null);
+    hasVoiceProfileRef.current = voiceProfile !== null;
+
     const [audioState, setAudioState] = useState<AudioState>({
         status: 'idle',
         trackInfo: { chapterIndex: null, paragraphIndex: null },
@@ -59,7 +99,7 @@ export function useAudioPlayer() {
         duration: 0,
         volume: 1,
         isMuted: false,
-        speed: audioConfig.speed,
+        speed,
         errorMessage: undefined,
     });
     
@@ -68,165 +108,361 @@ export function useAudioPlayer() {
         audioStateRef.current = audioState;
     }, [audioState]);
 
+
     const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
     const gainNodeRef = useRef<GainNode | null>(null);
-    const audioBufferRef = useRef<AudioBuffer | null>(null);
-    
-    const playbackStartedAtRef = useRef<number>(0);
-    const playbackPausedAtRef = useRef<number>(0);
-    
+
+    // O texto é narrado em trechos: cada trecho vira um AudioBuffer assim que é gerado, e os buffers
+    // carregados (sempre um prefixo contínuo da lista) são agendados em sequência, sem intervalos, no AudioContext.
+    const chunksRef = useRef<SpeechChunk[]>([]);
+    const buffersRef = useRef<AudioBuffer[]>([]);
+    const loadErrorRef = useRef<string | null>(null);
+    const scheduledSourcesRef = useRef<AudioBufferSourceNode[]>([]);
+    const scheduledEndRef = useRef(0);
+    const nextScheduleIndexRef = useRef(0);
+
+    // Posição na faixa (em segundos de áudio, independente da velocidade): ponto de referência enquanto toca,
+    // posição salva enquanto está pausado ou aguardando o próximo trecho.
+    const anchorRef = useRef({ contextTime: 0, trackTime: 0 });
+    const pausedAtRef = useRef(0);
+    const isPlayingRef = useRef(false);
+    // Verdadeiro quando a reprodução deve começar/continuar assim que o próximo trecho ficar pronto.
+    const isWaitingRef = useRef(false);
+    const speedRef = useRef(speed);
+
     const animationFrameRef = useRef<number | null>(null);
     const generationIdRef = useRef(0);
+    // Permite interromper a requisição de áudio em andamento (e não apenas ignorar seu resultado).
+    const loadAbortControllerRef = useRef<AbortController | null>(null);
     // FIX: Initialize `onEndedCallbackRef` to `null` as `onAudioEnded` is not defined in this scope.
     // The actual callback is passed during `loadAndPlay`.
     const onEndedCallbackRef = useRef<(() => void) | null>(null);
     const updateProgressRef = useRef<() => void>();
 
-    const stop = useCallback((resetFullState = true) => {
+    const ensureAudioContext = useCallback(() => {
+        if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
+            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+        }
+        if (!gainNodeRef.current || gainNodeRef.current.context !== audioContextRef.current) {
+            gainNodeRef.current = audioContextRef.current.createGain();
+            gainNodeRef.current.connect(audioContextRef.current.destination);
+            const { isMuted, volume } = audioStateRef.current;
+            gainNodeRef.current.gain.setValueAtTime(isMuted ? 0 : volume, audioContextRef.current.currentTime);
+        }
+        return audioContextRef.current;
+    }, []);
+
+    const loadedDuration = () => buffersRef.current.reduce((total, buffer) => total + buffer.duration, 0);
+    const isFullyLoaded = () => chunksRef.current.length > 0 && buffersRef.current.length === chunksRef.current.length;
+
+    // Localiza o trecho carregado que contém a posição informada. Retorna o índice seguinte ao último
+    // buffer carregado se a posição ainda não estiver disponível.
+    const locate = (trackTime: number) => {
+        let start = 0;
+        for (let index = 0; index < buffersRef.current.length; index++) {
+            const duration = buffersRef.current[index].duration;
+            if (trackTime < start + duration) {
+                return { index, offset: Math.max(0, trackTime - start) };
+            }
+            start += duration;
+        }
+        return { index: buffersRef.current.length, offset: 0 };
+    };
+
+    const getTrackTime = () => {
+        if (!isPlayingRef.current || !audioContextRef.current) return pausedAtRef.current;
+        const { contextTime, trackTime } = anchorRef.current;
+        return trackTime + Math.max(0, audioContextRef.current.currentTime - contextTime) * speedRef.current;
+    };
+
+    const stopSources = useCallback(() => {
         if (animationFrameRef.current) {
             cancelAnimationFrame(animationFrameRef.current);
             animationFrameRef.current = null;
         }
-        if (audioSourceRef.current) {
-            audioSourceRef.current.onended = null;
+        scheduledSourcesRef.current.forEach(source => {
+            source.onended = null;
             try {
                 // FIX: The stop() method should be called with an argument to be compatible with all browser versions.
                 // Passing 0 stops the playback immediately.
-                audioSourceRef.current.stop(0);
+                source.stop(0);
             } catch (e) { /* Ignora se já parado */ }
-            audioSourceRef.current.disconnect();
-            audioSourceRef.current = null;
-        }
+            source.disconnect();
+        });
+        scheduledSourcesRef.current = [];
+    }, []);
+
+    const stop = useCallback((resetFullState = true) => {
+        stopSources();
         if (resetFullState) {
+            loadAbortControllerRef.current?.abort();
+            loadAbortControllerRef.current = null;
+            isPlayingRef.current = false;
+            isWaitingRef.current = false;
+            chunksRef.current = [];
+            buffersRef.current = [];
+            loadErrorRef.current = null;
+            pausedAtRef.current = 0;
             setAudioState(prev => ({ ...prev, status: 'idle', trackInfo: { chapterIndex: null, paragraphIndex: null }, currentTime: 0, duration: 0 }));
-            audioBufferRef.current = null;
-            playbackPausedAtRef.current = 0;
         }
-    }, []);
+    }, [stopSources]);
 
+    // Progresso de escuta do plano aberto (ponto de retomada e fração ouvida de cada tópico), salvo no localStorage.
+    const [playbackProgress, setPlaybackProgress] = useState<PlanPlaybackProgress>(EMPTY_PLAYBACK_PROGRESS);
+    const playbackProgressRef = useRef(playbackProgress);
+    const planIdRef = useRef(planId);
     useEffect(() => {
-        updateProgressRef.current = () => {
-            const state = audioStateRef.current;
-            if (state.status !== 'playing' || !audioContextRef.current || !audioBufferRef.current) {
-                return;
-            }
-            
-            const elapsed = audioContextRef.current.currentTime - playbackStartedAtRef.current;
-            const newCurrentTime = playbackPausedAtRef.current + (elapsed * state.speed);
-            const duration = audioBufferRef.current.duration;
-
-            if (duration > 0 && newCurrentTime >= duration) {
-                setAudioState(prev => ({ ...prev, currentTime: duration }));
-                stop(true);
-                if (onEndedCallbackRef.current) {
-                    onEndedCallbackRef.current();
-                }
-            } else {
-                setAudioState(prev => ({ ...prev, currentTime: newCurrentTime }));
-                animationFrameRef.current = requestAnimationFrame(updateProgressRef.current!);
-            }
-        };
-    }, [stop]);
+        planIdRef.current = planId;
+        const progress = planId ? loadPlaybackProgress(planId) : EMPTY_PLAYBACK_PROGRESS;
+        playbackProgressRef.current = progress;
+        setPlaybackProgress(progress);
+    }, [planId]);
 
-    const play = useCallback((startTime = 0) => {
-        if (!audioBufferRef.current) return;
-        if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    const updatePlaybackProgress = useCallback((update: (prev: PlanPlaybackProgress) => PlanPlaybackProgress) => {
+        const currentPlanId = planIdRef.current;
+        if (!currentPlanId) return;
+        const progress = update(playbackProgressRef.current);
+        playbackProgressRef.current = progress;
+        setPlaybackProgress(progress);
+        savePlaybackProgress(currentPlanId, progress);
+    }, []);
+
+    // Trecho em reprodução na sequência natural da faixa; volta a null quando o usuário salta para outra posição,
+    // para que só os trechos tocados até o fim contem como ouvidos.
+    const playingChunkIndexRef = useRef<number | null>(null);
+
+    // Registra um trecho que tocou até o fim. O bloco conta como ouvido quando o seu último trecho termina.
+    const markChunkFinished = useCallback((chunkIndex: number) => {
+        const chunks = chunksRef.current;
+        const chunk = chunks[chunkIndex];
+        if (!chunk || chunks[chunkIndex + 1]?.paragraphIndex === chunk.paragraphIndex) return;
+        const { chapterIndex, chapterTitle, narratedParagraphCount } = audioStateRef.current.trackInfo;
+        if (chapterIndex === null || !narratedParagraphCount || isSummaryTrack(chapterTitle)) return;
+        updatePlaybackProgress(prev => {
+            const heard = prev.heardParagraphs[chapterIndex] ?? [];
+            if (heard.includes(chunk.paragraphIndex)) return prev;
+            const nextHeard = [...heard, chunk.paragraphIndex];
+            return {
+                ...prev,
+                heardParagraphs: { ...prev.heardParagraphs, [chapterIndex]: nextHeard },
+                listened: { ...prev.listened, [chapterIndex]: Math.min(1, nextHeard.length / narratedParagraphCount) },
+            };
+        });
+    }, [updatePlaybackProgress]);
+
+    // Chamado quando a reprodução alcança o fim do áudio já carregado.
+    const handleReachedLoadedEnd = useCallback(() => {
+        if (playingChunkIndexRef.current === buffersRef.current.length - 1) {
+            markChunkFinished(playingChunkIndexRef.current);
         }
-        if (!gainNodeRef.current || gainNodeRef.current.context.state === 'closed') {
-            gainNodeRef.current = audioContextRef.current.createGain();
-            gainNodeRef.current.connect(audioContextRef.current.destination);
+        if (isFullyLoaded()) {
+            const { chapterIndex, chapterTitle } = audioStateRef.current.trackInfo;
+            if (chapterIndex !== null && !isSummaryTrack(chapterTitle)) {
+                // Tópico ouvido até o fim: não há mais de onde continuar nele.
+                updatePlaybackProgress(prev => ({
+                    ...prev,
+                    resumePosition: prev.resumePosition?.chapterIndex === chapterIndex ? null : prev.resumePosition,
+                }));
+            }
+            stop(true);
+            onEndedCallbackRef.current?.();
+            return;
         }
-        
-        stop(false);
+        stopSources();
+        isPlayingRef.current = false;
+        pausedAtRef.current = loadedDuration();
+        if (loadErrorRef.current) {
+            const message = loadErrorRef.current;
+            setAudioState(prev => ({ ...prev, status: 'error', errorMessage: message }));
+            return;
+        }
+        // O próximo trecho ainda está sendo gerado: a reprodução continua assim que ele chegar.
+        isWaitingRef.current = true;
+        setAudioState(prev => ({ ...prev, status: 'loading' }));
+    }, [stop, stopSources, updatePlaybackProgress, markChunkFinished]);
 
-        const source = audioContextRef.current.createBufferSource();
-        source.buffer = audioBufferRef.current;
-        source.playbackRate.value = audioStateRef.current.speed;
-        source.connect(gainNodeRef.current);
+    const scheduleBuffer = useCallback((index: number, offset: number) => {
+        const context = audioContextRef.current;
+        const buffer = buffersRef.current[index];
+        if (!context || !gainNodeRef.current || !buffer) return;
 
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.playbackRate.value = speedRef.current;
+        source.connect(gainNodeRef.current);
         source.onended = () => {
-            if (audioSourceRef.current === source && audioStateRef.current.status === 'playing') {
-                 stop(true);
-                 if (onEndedCallbackRef.current) {
-                     onEndedCallbackRef.current();
-                 }
+            const sources = scheduledSourcesRef.current;
+            if (isPlayingRef.current && sources[sources.length - 1] === source) {
+                handleReachedLoadedEnd();
             }
         };
-        
-        gainNodeRef.current.gain.setValueAtTime(audioStateRef.current.isMuted ? 0 : audioStateRef.current.volume, audioContextRef.current.currentTime);
-        source.start(0, startTime);
-        
-        playbackStartedAtRef.current = audioContextRef.current.currentTime;
-        playbackPausedAtRef.current = startTime;
-        audioSourceRef.current = source;
+        source.start(scheduledEndRef.current, offset);
+
+        scheduledEndRef.current += (buffer.duration - offset) / speedRef.current;
+        scheduledSourcesRef.current.push(source);
+        nextScheduleIndexRef.current = index + 1;
+    }, [handleReachedLoadedEnd]);
+
+    // (Re)agenda a reprodução a partir de uma posição da faixa, encadeando todos os buffers já carregados.
+    const playFrom = useCallback((trackTime: number) => {
+        const context = ensureAudioContext();
+        stopSources();
+        pausedAtRef.current = trackTime;
+
+        const { index, offset } = locate(trackTime);
+        if (index >= buffersRef.current.length) {
+            handleReachedLoadedEnd();
+            return;
+        }
+
+        const startAt = context.currentTime + SCHEDULE_LEAD_SECONDS;
+        anchorRef.current = { contextTime: startAt, trackTime };
+        scheduledEndRef.current = startAt;
+        scheduleBuffer(index, offset);
+        for (let next = index + 1; next < buffersRef.current.length; next++) {
+            scheduleBuffer(next, 0);
+        }
+
+        isPlayingRef.current = true;
+        isWaitingRef.current = false;
         setAudioState(prev => ({ ...prev, status: 'playing' }));
         animationFrameRef.current = requestAnimationFrame(updateProgressRef.current!);
+    }, [ensureAudioContext, stopSources, handleReachedLoadedEnd, scheduleBuffer]);
 
-    }, [stop]);
+    // Um novo trecho ficou pronto: emenda-o ao fim do que já está agendado ou retoma a reprodução em espera.
+    const handleChunkLoaded = useCallback((index: number) => {
+        if (isWaitingRef.current) {
+            playFrom(pausedAtRef.current);
+            return;
+        }
+        const context = audioContextRef.current;
+        if (!isPlayingRef.current || !context || nextScheduleIndexRef.current !== index) return;
+        if (scheduledEndRef.current > context.currentTime) {
+            scheduleBuffer(index, 0);
+        } else {
+            // O áudio agendado acabou de terminar, antes do evento de fim: recomeça exatamente no novo trecho.
+            const chunkStart = buffersRef.current.slice(0, index).reduce((total, buffer) => total + buffer.duration, 0);
+            playFrom(chunkStart);
+        }
+    }, [scheduleBuffer, playFrom]);
+
+    useEffect(() => {
+        updateProgressRef.current = () => {
+            if (!isPlayingRef.current) return;
+
+            const trackTime = getTrackTime();
+            const total = loadedDuration();
+            if (trackTime >= total) {
+                setAudioState(prev => ({ ...prev, currentTime: total }));
+                handleReachedLoadedEnd();
+                return;
+            }
+
+            const { index } = locate(trackTime);
+            const previousIndex = playingChunkIndexRef.current;
+            if (previousIndex !== null && index === previousIndex + 1) markChunkFinished(previousIndex);
+            playingChunkIndexRef.current = index;
+
+            const chunk = chunksRef.current[index];
+            setAudioState(prev => ({
+                ...prev,
+                currentTime: trackTime,
+                trackInfo: chunk && prev.trackInfo.paragraphContent !== chunk.text
+                    ? { ...prev.trackInfo, paragraphIndex: chunk.paragraphIndex, paragraphContent: chunk.text }
+                    : prev.trackInfo,
+            }));
+            animationFrameRef.current = requestAnimationFrame(updateProgressRef.current!);
+        };
+    }, [handleReachedLoadedEnd, markChunkFinished]);
 
     const pause = useCallback(() => {
-        if (!audioContextRef.current || audioState.status !== 'playing') return;
-        const elapsed = audioContextRef.current.currentTime - playbackStartedAtRef.current;
-        playbackPausedAtRef.current += elapsed * audioStateRef.current.speed;
-        stop(false);
+        if (!isPlayingRef.current && !isWaitingRef.current) return;
+        pausedAtRef.current = getTrackTime();
+        isPlayingRef.current = false;
+        isWaitingRef.current = false;
+        stopSources();
         setAudioState(prev => ({...prev, status: 'paused' }));
-    }, [stop, audioState.status]);
+    }, [stopSources]);
 
     const playPause = useCallback(() => {
         if (audioState.status === 'playing') {
             pause();
         } else if (audioState.status === 'paused') {
-            play(playbackPausedAtRef.current);
+            playFrom(pausedAtRef.current);
         }
-    }, [audioState.status, pause, play]);
+    }, [audioState.status, pause, playFrom]);
 
+    const loadChunkAudio = async (text: string, voice: string, signal: AbortSignal, context: AudioContext, chapterIndex: number) => {
+        const base64Audio = await getSpeechClip(text, voice, signal, { planId: planIdRef.current, chapterIndex });
+        return decodeAudioData(decode(base64Audio), context, SAMPLE_RATE, 1);
+    };
+
+    // `text` é o Markdown do tópico ou do resumo; ele é convertido em texto narrável antes da síntese.
+    // `paragraphIndex` indica o parágrafo a partir do qual a narração começa (valores negativos: do início).
     const loadAndPlay = useCallback(async (text: string, chapterIndex: number, paragraphIndex: number, onEnded: () => void, chapterTitle: string) => {
         onEndedCallbackRef.current = onEnded;
         const currentGenerationId = ++generationIdRef.current;
         
         stop(true);
-        setAudioState(prev => ({ ...prev, status: 'loading', trackInfo: { chapterIndex, paragraphIndex, chapterTitle, paragraphContent: text } }));
+        playingChunkIndexRef.current = null;
+        const allChunks = splitIntoSpeechChunks(prepareSpeechParagraphs(text, audioConfig.speech));
+        const paragraphCount = allChunks.length > 0 ? allChunks[allChunks.length - 1].paragraphIndex + 1 : 0;
+        const narratedParagraphCount = countNarratedParagraphs(allChunks);
+        const chunks = allChunks.filter(chunk => chunk.paragraphIndex >= Math.max(0, paragraphIndex));
+        if (chunks.length === 0) {
+            setAudioState(prev => ({ ...prev, status: 'error', errorMessage: "O texto para gerar áudio não pode estar vazio." }));
+            return;
+        }
 
-        try {
-            const cacheKey = `${audioConfig.voice}::${text}`;
-            let base64Audio = await getAudio(cacheKey);
+        const controller = new AbortController();
+        loadAbortControllerRef.current = controller;
+        chunksRef.current = chunks;
+        isWaitingRef.current = true;
+        setAudioState(prev => ({
+            ...prev,
+            status: 'loading',
+            trackInfo: { chapterIndex, paragraphIndex: chunks[0].paragraphIndex, paragraphCount, narratedParagraphCount, chapterTitle, paragraphContent: chunks[0].text },
+        }));
 
-            if (!base64Audio) {
-                base64Audio = await generateSpeech(text, audioConfig.voice);
+        try {
+            const context = ensureAudioContext();
+            for (let index = 0; index < chunks.length; index++) {
+                const buffer = await loadChunkAudio(chunks[index].text, voice, controller.signal, context, chapterIndex);
                 if (currentGenerationId !== generationIdRef.current) return;
-                storeAudio(cacheKey, base64Audio).catch(console.error);
-            }
 
-            if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
-                audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+                buffersRef.current.push(buffer);
+                setAudioState(prev => ({ ...prev, duration: loadedDuration() }));
+                handleChunkLoaded(index);
             }
-            const buffer = await decodeAudioData(decode(base64Audio), audioContextRef.current, 24000, 1);
-            if (currentGenerationId !== generationIdRef.current) return;
-
-            audioBufferRef.current = buffer;
-            setAudioState(prev => ({ ...prev, duration: buffer.duration }));
-            play(0);
-
+            loadAbortControllerRef.current = null;
         } catch (err) {
-            if (currentGenerationId === generationIdRef.current) {
-                const message = err instanceof Error ? err.message : "Erro ao carregar áudio.";
+            if (controller.signal.aborted || currentGenerationId !== generationIdRef.current) return;
+            const message = err instanceof Error ? err.message : "Erro ao carregar áudio.";
+            loadAbortControllerRef.current = null;
+            // O áudio já carregado continua tocando; o erro é exibido quando a reprodução chegar ao trecho que falhou.
+            loadErrorRef.current = message;
+            if (!isPlayingRef.current) {
+                isWaitingRef.current = false;
                 setAudioState(prev => ({ ...prev, status: 'error', errorMessage: message }));
             }
         }
-    }, [stop, audioConfig.voice, play]);
+    }, [stop, voice, audioConfig.speech, ensureAudioContext, handleChunkLoaded]);
 
     const seekTo = useCallback((time: number) => {
-        if (audioBufferRef.current) {
-            const wasPlaying = audioState.status === 'playing';
-            playbackPausedAtRef.current = time;
-            setAudioState(prev => ({ ...prev, currentTime: time }));
-            if (wasPlaying) {
-                play(time);
-            }
+        if (buffersRef.current.length === 0) return;
+        playingChunkIndexRef.current = null;
+        const chunk = chunksRef.current[locate(time).index];
+        setAudioState(prev => ({
+            ...prev,
+            currentTime: time,
+            trackInfo: chunk ? { ...prev.trackInfo, paragraphIndex: chunk.paragraphIndex, paragraphContent: chunk.text } : prev.trackInfo,
+        }));
+        if (isPlayingRef.current || isWaitingRef.current) {
+            playFrom(time);
+        } else {
+            pausedAtRef.current = time;
         }
-    }, [audioState.status, play]);
+    }, [playFrom]);
 
     const handleVolumeChange = useCallback((newVolume: number) => {
         setAudioState(prev => ({ ...prev, volume: newVolume, isMuted: newVolume === 0 }));
@@ -244,16 +480,120 @@ export function useAudioPlayer() {
         }
     }, [audioState.isMuted]);
 
+    // Salva o parágrafo em narração como ponto de retomada. A fração ouvida avança só em `markChunkFinished`.
+    useEffect(() => {
+        const { chapterIndex, paragraphIndex, paragraphCount, chapterTitle } = audioState.trackInfo;
+        if (chapterIndex === null || paragraphIndex === null || !paragraphCount || !chapterTitle || isSummaryTrack(chapterTitle)) return;
+        updatePlaybackProgress(prev => ({
+            ...prev,
+            resumePosition: { chapterIndex, chapterTitle, paragraphIndex, paragraphCount, updatedAt: Date.now() },
+        }));
+    }, [audioState.trackInfo.chapterIndex, audioState.trackInfo.paragraphIndex, audioState.trackInfo.paragraphCount, audioState.trackInfo.chapterTitle, updatePlaybackProgress]);
+
+    // Com vários buffers agendados, mudar a velocidade exige reagendá-los a partir da posição atual.
+    // Com um perfil de voz ativo, quem chama é responsável por salvar a nova velocidade no perfil.
     const handleSpeedChange = useCallback((newSpeed: number) => {
-        setAudioConfig(prev => ({ ...prev, speed: newSpeed }));
-        if (audioSourceRef.current) {
-            audioSourceRef.current.playbackRate.value = newSpeed;
+        const trackTime = getTrackTime();
+        speedRef.current = newSpeed;
+        setAudioState(prev => ({ ...prev, speed: newSpeed }));
+        if (!hasVoiceProfileRef.current) setAudioConfig(prev => ({ ...prev, speed: newSpeed }));
+        if (isPlayingRef.current) {
+            playFrom(trackTime);
         }
-    }, []);
+    }, [playFrom]);
     
     useEffect(() => {
-      setAudioState(prev => ({...prev, speed: audioConfig.speed}));
-    }, [audioConfig.speed])
+      speedRef.current = speed;
+      setAudioState(prev => ({...prev, speed}));
+    }, [speed])
+
+    // Media Session: o tópico aparece nos controles de mídia do sistema, que passam a comandar o player
+    // (fones de ouvido, tela de bloqueio, teclas de mídia). Os navegadores só ativam esses controles para
+    // elementos de mídia, por isso um <audio> silencioso em loop acompanha a reprodução do AudioContext.
+    const silentAudioRef = useRef<HTMLAudioElement | null>(null);
+
+    const updatePositionState = useCallback(() => {
+        const duration = loadedDuration();
+        if (!hasMediaSession() || duration <= 0) return;
+        try {
+            navigator.mediaSession.setPositionState({ duration, playbackRate: speedRef.current, position: Math.min(getTrackTime(), duration) });
+        } catch (e) { /* setPositionState não suportado */ }
+    }, []);
+
+    const mediaActionsRef = useRef({ play: () => {}, pause: () => {}, stop: () => {}, seekTo: (_time: number) => {} });
+    mediaActionsRef.current = {
+        play: () => {
+            if (audioStateRef.current.status === 'paused') playFrom(pausedAtRef.current);
+        },
+        pause,
+        stop: () => stop(true),
+        seekTo: (time: number) => {
+            seekTo(Math.max(0, Math.min(time, loadedDuration())));
+            updatePositionState();
+        },
+    };
+
+    useEffect(() => {
+        if (!hasMediaSession()) return;
+        const actions = mediaActionsRef;
+        setMediaAction('play', () => actions.current.play());
+        setMediaAction('pause', () => actions.current.pause());
+        setMediaAction('stop', () => actions.current.stop());
+        setMediaAction('seekto', details => {
+            if (details.seekTime !== undefined) actions.current.seekTo(details.seekTime);
+        });
+        setMediaAction('seekbackward', details => actions.current.seekTo(getTrackTime() - (details.seekOffset ?? 10)));
+        setMediaAction('seekforward', details => actions.current.seekTo(getTrackTime() + (details.seekOffset ?? 10)));
+        return () => {
+            (['play', 'pause', 'stop', 'seekto', 'seekbackward', 'seekforward', 'nexttrack', 'previoustrack'] as MediaSessionAction[])
+                .forEach(action => setMediaAction(action, null));
+        };
+    }, []);
+
+    // Registra as ações de próxima/anterior, que dependem da navegação entre tópicos feita por quem usa o hook.
+    const setTrackNavigation = useCallback((navigation: TrackNavigation) => {
+        if (!hasMediaSession()) return;
+        setMediaAction('nexttrack', navigation.onNext);
+        setMediaAction('previoustrack', navigation.onPrevious);
+    }, []);
+
+    useEffect(() => {
+        if (!hasMediaSession()) return;
+        const { chapterTitle } = audioState.trackInfo;
+        navigator.mediaSession.metadata = chapterTitle
+            ? new MediaMetadata({ title: chapterTitle, artist: 'Cortex DeepMind', album: planTitle ?? '' })
+            : null;
+    }, [audioState.trackInfo.chapterTitle, planTitle]);
+
+    useEffect(() => {
+        const { status } = audioState;
+        if (hasMediaSession()) {
+            navigator.mediaSession.playbackState = status === 'playing' || status === 'loading' ? 'playing' : status === 'paused' ? 'paused' : 'none';
+        }
+        if (status === 'idle' || status === 'error' || status === 'paused') {
+            silentAudioRef.current?.pause();
+            return;
+        }
+        if (!silentAudioRef.current) {
+            silentAudioRef.current = new Audio(URL.createObjectURL(createSilentWav(1, 8000)));
+            silentAudioRef.current.loop = true;
+        }
+        silentAudioRef.current.play().catch(() => { /* Reprodução bloqueada: os controles do sistema apenas não aparecem */ });
+    }, [audioState.status]);
+
+    useEffect(() => {
+        updatePositionState();
+    }, [audioState.duration, audioState.speed, audioState.status, updatePositionState]);
+
+    useEffect(() => {
+        return () => {
+            const silentAudio = silentAudioRef.current;
+            if (silentAudio) {
+                silentAudio.pause();
+                URL.revokeObjectURL(silentAudio.src);
+            }
+        };
+    }, []);
 
     useEffect(() => {
         return () => {
@@ -269,11 +609,19 @@ export function useAudioPlayer() {
         loadAndPlay,
         playPause,
         stopAudio: stop,
+        pauseAudio: pause,
         seekTo,
+        setTrackNavigation,
+        // Onde a narração do plano parou na última sessão e quanto de cada tópico já foi ouvido (0 a 1).
+        resumePosition: playbackProgress.resumePosition,
+        listenedProgress: playbackProgress.listened,
         handleVolumeChange,
         handleMuteToggle,
         handleSpeedChange,
-        audioConfig,
+        // Configuração efetiva: a voz e a velocidade já consideram o perfil de voz ativo.
+        audioConfig: { ...audioConfig, voice, speed },
+        // Voz e velocidade padrão, usadas quando não há perfil de voz ativo.
+        defaultVoiceProfile: { voice: audioConfig.voice, speed: audioConfig.speed },
         setAudioConfig,
     };
 }
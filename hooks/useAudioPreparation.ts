@@ -0,0 +1,94 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { getPlan } from '../utils/db';
+import {
+    prepareAudioForPlan,
+    loadPendingPreparation,
+    savePendingPreparation,
+    AudioPreparationJob,
+    AudioPreparationFailure,
+    AudioPreparationProgress,
+} from '../utils/audioPreparation';
+
+type PreparationStatus = 'idle' | 'running' | 'done' | 'error';
+
+export type AudioPreparationState = {
+    status: PreparationStatus;
+    job: AudioPreparationJob | null;
+    planTitle?: string;
+    progress: AudioPreparationProgress | null;
+    failures: AudioPreparationFailure[];
+    errorMessage?: string;
+};
+
+const IDLE_STATE: AudioPreparationState = { status: 'idle', job: null, progress: null, failures: [] };
+
+// Executa em segundo plano a preparação do áudio offline de um plano.
+// O job fica salvo no localStorage enquanto roda e é retomado se a página for recarregada.
+export function useAudioPreparation() {
+    const [preparationState, setPreparationState] = useState<AudioPreparationState>(IDLE_STATE);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const runPreparation = useCallback(async (job: AudioPreparationJob) => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        savePendingPreparation(job);
+        setPreparationState({ status: 'running', job, progress: null, failures: [] });
+
+        try {
+            const plan = await getPlan(job.planId);
+            if (!plan) {
+                // O plano foi excluído da biblioteca: não há o que retomar.
+                savePendingPreparation(null);
+                setPreparationState(IDLE_STATE);
+                return;
+            }
+            setPreparationState(prev => ({ ...prev, planTitle: plan.doc.title }));
+
+            const failures = await prepareAudioForPlan(plan, job, {
+                signal: controller.signal,
+                onProgress: progress => {
+                    if (!controller.signal.aborted) setPreparationState(prev => ({ ...prev, progress, failures: progress.failures }));
+                },
+            });
+            savePendingPreparation(null);
+            setPreparationState(prev => ({ ...prev, status: 'done', failures }));
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            savePendingPreparation(null);
+            const message = err instanceof Error ? err.message : "Erro ao preparar o áudio offline.";
+            setPreparationState(prev => ({ ...prev, status: 'error', errorMessage: message }));
+        } finally {
+            if (abortControllerRef.current === controller) abortControllerRef.current = null;
+        }
+    }, []);
+
+    const startPreparation = useCallback((job: AudioPreparationJob) => {
+        runPreparation(job);
+    }, [runPreparation]);
+
+    const cancelPreparation = useCallback(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        savePendingPreparation(null);
+        setPreparationState(IDLE_STATE);
+    }, []);
+
+    const dismissPreparation = useCallback(() => {
+        setPreparationState(prev => (prev.status === 'running' ? prev : IDLE_STATE));
+    }, []);
+
+    // Retoma a preparação interrompida por um recarregamento da página.
+    useEffect(() => {
+        const pendingJob = loadPendingPreparation();
+        if (pendingJob) runPreparation(pendingJob);
+        return () => abortControllerRef.current?.abort();
+    }, [runPreparation]);
+
+    return {
+        preparationState,
+        startPreparation,
+        cancelPreparation,
+        dismissPreparation,
+    };
+}
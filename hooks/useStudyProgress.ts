@@ -0,0 +1,80 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { ChapterStatus } from '../types';
+import { loadStudyProgress, saveStudyProgress, PlanStudyProgress, ChapterStudyProgress, NOT_STARTED } from '../utils/studyProgress';
+
+// Intervalo em que o tempo de leitura é somado e salvo, e o máximo contado de uma vez
+// (evita somar o tempo em que o computador ficou suspenso).
+const TIME_FLUSH_INTERVAL_MS = 30_000;
+const MAX_TIME_SEGMENT_MS = 2 * TIME_FLUSH_INTERVAL_MS;
+// Tempo no tópico a partir do qual ele deixa de ser "não iniciado".
+const READING_THRESHOLD_MS = 20_000;
+
+interface UseStudyProgressOptions {
+    planId: string | null;
+    // Tópico aberto na tela (índice na lista do sumário); null quando nenhum plano está aberto.
+    chapterIndex: number | null;
+}
+
+// Progresso de estudo do plano aberto, salvo no localStorage. Conta o tempo em que cada tópico
+// fica aberto com a aba visível.
+export function useStudyProgress({ planId, chapterIndex }: UseStudyProgressOptions) {
+    const [studyProgress, setStudyProgress] = useState<PlanStudyProgress>({});
+    const studyProgressRef = useRef(studyProgress);
+    const planIdRef = useRef(planId);
+    useEffect(() => {
+        planIdRef.current = planId;
+        const progress = planId ? loadStudyProgress(planId) : {};
+        studyProgressRef.current = progress;
+        setStudyProgress(progress);
+    }, [planId]);
+
+    const updateChapter = useCallback((index: number, update: (prev: ChapterStudyProgress) => ChapterStudyProgress) => {
+        const currentPlanId = planIdRef.current;
+        if (!currentPlanId) return;
+        const progress = { ...studyProgressRef.current, [index]: { ...update(studyProgressRef.current[index] ?? NOT_STARTED), updatedAt: Date.now() } };
+        studyProgressRef.current = progress;
+        setStudyProgress(progress);
+        saveStudyProgress(currentPlanId, progress);
+    }, []);
+
+    const setChapterStatus = useCallback((index: number, status: ChapterStatus) => {
+        updateChapter(index, prev => ({ ...prev, status }));
+    }, [updateChapter]);
+
+    useEffect(() => {
+        if (!planId || chapterIndex === null) return;
+        let startedAt: number | null = document.visibilityState === 'visible' ? Date.now() : null;
+
+        const flush = () => {
+            if (startedAt === null) return;
+            const now = Date.now();
+            const elapsed = Math.min(now - startedAt, MAX_TIME_SEGMENT_MS);
+            startedAt = now;
+            if (elapsed <= 0) return;
+            updateChapter(chapterIndex, prev => {
+                const timeSpentMs = prev.timeSpentMs + elapsed;
+                const status = prev.status === 'not_started' && timeSpentMs >= READING_THRESHOLD_MS ? 'reading' : prev.status;
+                return { ...prev, status, timeSpentMs };
+            });
+        };
+
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') {
+                startedAt = Date.now();
+            } else {
+                flush();
+                startedAt = null;
+            }
+        };
+
+        const interval = window.setInterval(flush, TIME_FLUSH_INTERVAL_MS);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            flush();
+            window.clearInterval(interval);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [planId, chapterIndex, updateChapter]);
+
+    return { studyProgress, setChapterStatus };
+}
@@ -0,0 +1,43 @@
+// services/aiProvider.ts
+// Contrato comum dos provedores de IA (plano de estudo, resumo, questionário, cartões e voz) e seleção do provedor ativo.
+
+import { Documentation, PlanProgress, QuizQuestion } from '../types';
+import { SourceFile } from '../utils/ingestion';
+import { FlashcardContent } from '../utils/flashcardValidation';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+export type PlanSourceInput = { files?: SourceFile[]; url?: string };
+
+export interface StudyPlanOptions {
+    // Chamado sempre que a fase muda ou um novo tópico termina de chegar pelo streaming.
+    onProgress?: (progress: PlanProgress) => void;
+    signal?: AbortSignal;
+}
+
+export interface AIProvider {
+    generateStudyPlan(source: PlanSourceInput, studyTopic: string, additionalTopics: string, options?: StudyPlanOptions): Promise<Documentation>;
+    generateChapterSummary(chapterTitle: string, chapterContent: string, signal?: AbortSignal): Promise<string>;
+    // Questões de múltipla escolha baseadas somente no conteúdo do tópico.
+    generateChapterQuiz(chapterTitle: string, chapterContent: string, questionCount: number, signal?: AbortSignal): Promise<QuizQuestion[]>;
+    // Cartões de pergunta e resposta para revisão espaçada, baseados no conteúdo do tópico.
+    generateChapterFlashcards(chapterTitle: string, chapterContent: string, signal?: AbortSignal): Promise<FlashcardContent[]>;
+    // Retorna o áudio em PCM 16 bits, mono, 24 kHz, codificado em base64.
+    generateSpeech(text: string, voice: string, signal?: AbortSignal): Promise<string>;
+}
+
+export type AIProviderName = 'gemini' | 'mock';
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+// O provedor é escolhido pela variável AI_PROVIDER (ex: AI_PROVIDER=mock no .env.local para trabalhar sem rede).
+export function getAIProvider(): AIProvider {
+    const name = process.env.AI_PROVIDER;
+    if (name && name in PROVIDERS) {
+        return PROVIDERS[name as AIProviderName];
+    }
+    return PROVIDERS.gemini;
+}
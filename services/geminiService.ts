@@ -1,31 +1,151 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { Documentation } from '../types';
+import { GoogleGenAI, Modality, Type, Schema } from "@google/genai";
+import { Documentation, Chapter, PlanGenerationPhase, QuizQuestion } from '../types';
+import { SourceFile } from '../utils/ingestion';
+import { AIProvider, PlanSourceInput, StudyPlanOptions } from './aiProvider';
+import { chunkSources, estimateSourceTokens } from '../utils/chunking';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { extractJson, repairTruncatedJson, parseCompletedArrayItems } from '../utils/jsonUtils';
+import { validateDocumentation, normalizeDocumentation, isValidChapter, PlanValidationError, ValidationIssue } from '../utils/planValidation';
+import { loadAISettings } from '../utils/settings';
+import { validateQuiz, normalizeQuiz } from '../utils/quizValidation';
+import { listSectionTitles } from '../utils/quiz';
+import { validateFlashcards, FlashcardContent } from '../utils/flashcardValidation';
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+let client: { apiKey: string; instance: GoogleGenAI } | null = null;
+
+// O cliente é criado sob demanda com a chave salva nas configurações do usuário e recriado se ela mudar,
+// para que a ausência da chave não impeça o app de carregar (por exemplo, ao usar o provedor local de testes).
+function getClient(): GoogleGenAI {
+    const apiKey = loadAISettings().apiKey.trim();
+    if (!apiKey) {
+        throw new Error("A chave da API do Gemini não foi configurada. Informe sua chave em Configurações.");
+    }
+    if (!client || client.apiKey !== apiKey) {
+        client = { apiKey, instance: new GoogleGenAI({ apiKey }) };
+    }
+    return client.instance;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// Orçamento estimado de tokens de entrada por chamada. Acima dele, os materiais são processados em blocos
+// (map-reduce) para que cada chamada tenha sua própria cota de saída e o plano final não seja truncado.
+const CHUNK_TOKEN_BUDGET = 60000;
+// Número máximo de blocos processados simultaneamente.
+const MAP_CONCURRENCY = 2;
+// Teto do "pensamento" no reparo de planos, que só reescreve o JSON recebido.
+const REPAIR_THINKING_BUDGET = 1024;
 
-export async function generateStudyPlan(
-    source: { files?: { name: string; content: string }[]; url?: string },
-    studyTopic: string,
-    additionalTopics: string
-): Promise<Documentation> {
-    let jsonText = ''; // Definido aqui para ser acessível no bloco catch
-    try {
-        const sourcePromptPart = source.url
-            ? `**Fonte de Estudo Principal (URL):**
+type PlanStreamUpdate = { phase: PlanGenerationPhase; title?: string; chapters: Chapter[] };
+
+// Esquema declarado do plano de estudo. O esquema de resposta não aceita referências recursivas,
+// então os subtópicos são declarados explicitamente até o terceiro nível.
+const chapterSchema = (subChapterItems?: Schema): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        content: { type: Type.STRING, description: "Conteúdo do tópico em Markdown." },
+        ...(subChapterItems ? { subChapters: { type: Type.ARRAY, items: subChapterItems } } : {}),
+    },
+    required: ['title', 'content'],
+    propertyOrdering: subChapterItems ? ['title', 'content', 'subChapters'] : ['title', 'content'],
+});
+
+const DOCUMENTATION_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        chapters: { type: Type.ARRAY, items: chapterSchema(chapterSchema(chapterSchema())) },
+    },
+    required: ['title', 'chapters'],
+    propertyOrdering: ['title', 'chapters'],
+};
+
+const QUIZ_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        questions: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: ['single', 'multiple'] },
+                    question: { type: Type.STRING },
+                    options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    correctOptions: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Índices (a partir de 0) das alternativas corretas." },
+                    explanation: { type: Type.STRING },
+                    section: { type: Type.STRING, description: "Título exato da seção do tópico que fundamenta a resposta." },
+                },
+                required: ['type', 'question', 'options', 'correctOptions', 'explanation'],
+                propertyOrdering: ['type', 'question', 'options', 'correctOptions', 'explanation', 'section'],
+            },
+        },
+    },
+    required: ['questions'],
+};
+
+// As questões, as alternativas e as explicações ocupam bem mais saída do que um resumo.
+const QUIZ_MAX_OUTPUT_TOKENS = 8192;
+
+const FLASHCARDS_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        cards: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    question: { type: Type.STRING },
+                    answer: { type: Type.STRING },
+                },
+                required: ['question', 'answer'],
+                propertyOrdering: ['question', 'answer'],
+            },
+        },
+    },
+    required: ['cards'],
+};
+
+const MERGE_PLAN_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        chapters: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    parts: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['title', 'parts'],
+            },
+        },
+    },
+    required: ['title', 'chapters'],
+};
+
+// Arquivos divididos em partes mantêm o nome original seguido de " (parte i/n)".
+const isPdfSource = (file: SourceFile) => /\.pdf($|\s)/i.test(file.name);
+
+function buildFilesPromptPart(files: SourceFile[] | undefined): string {
+    // A instrução de citar páginas só faz sentido quando há texto extraído de PDF (com os marcadores de página).
+    const pageCitationNote = files?.some(isPdfSource)
+        ? `\nObservação: o texto extraído de PDFs contém marcadores "[Página N]". Ao usar esse material, mencione a página de origem quando for relevante (ex: "ver página 12 do guia").`
+        : '';
+    return `**Fonte de Estudo Principal (Arquivos do Usuário):**
+${files?.map(file => `--- INÍCIO DO ARQUIVO: ${file.name} ---\n${file.content}\n--- FIM DO ARQUIVO: ${file.name} ---`).join('\n\n') ?? 'Nenhum arquivo fornecido.'}${pageCitationNote}`;
+}
+
+function buildPlanPrompt(source: PlanSourceInput, studyTopic: string, additionalTopics: string, scopeNote = ''): string {
+    const sourcePromptPart = source.url
+        ? `**Fonte de Estudo Principal (URL):**
 O usuário forneceu a seguinte URL como ponto de partida para a documentação: ${source.url}.
 Sua tarefa inclui:
 1.  **Navegação Profunda:** A partir da URL inicial, navegue pelas páginas vinculadas para explorar toda a seção da documentação. Vá a vários níveis de profundidade.
 2.  **Extração Completa:** Extraia o conteúdo completo das páginas, NÃO resuma.
 3.  **Estruturação:** Organize o conteúdo extraído em capítulos e subtópicos que reflitam a estrutura da documentação original.`
-            : `**Fonte de Estudo Principal (Arquivos do Usuário):**
-${source.files?.map(file => `--- INÍCIO DO ARQUIVO: ${file.name} ---\n${file.content}\n--- FIM DO ARQUIVO: ${file.name} ---`).join('\n\n') ?? 'Nenhum arquivo fornecido.'}`;
-        
-        const prompt = `Você é o Cortex DeepMind, um assistente de IA especialista em criar planos de estudo personalizados.
+        : buildFilesPromptPart(source.files);
+
+    return `Você é o Cortex DeepMind, um assistente de IA especialista em criar planos de estudo personalizados.
 
 **Tarefa:**
 Sua missão é gerar um plano de estudo estruturado e detalhado com base no TEMA DE ESTUDO, na fonte de estudo (URL ou arquivos) e nos tópicos adicionais fornecidos pelo usuário. O tema pode ser um código de exame de certificação (ex: AZ-104) ou um tópico para estudo livre (ex: Kubernetes, React).
@@ -33,7 +153,7 @@ Sua missão é gerar um plano de estudo estruturado e detalhado com base no TEMA
 **Tema de Estudo:** ${studyTopic}
 
 ${sourcePromptPart}
-
+${scopeNote}
 ${additionalTopics.trim() ? `**Tópicos Adicionais Solicitados pelo Usuário:**
 O usuário solicitou que os seguintes tópicos ou perguntas sejam cobertos com atenção especial no plano de estudo:
 ${additionalTopics}` : ''}
@@ -73,64 +193,312 @@ O JSON final deve seguir esta estrutura. O campo 'content' deve estar em formato
 - O título principal do JSON ("title") **deve** refletir claramente o tema de estudo. Se for um exame, use o nome oficial. Se for um tópico ou uma documentação web, use o nome apropriado.
 - O conteúdo ('content') deve ser rico, informativo e bem formatado em Markdown.
 - A sua resposta final deve ser **exclusivamente** o objeto JSON completo. Não inclua texto explicativo, comentários ou blocos de código markdown (\`\`\`) envolvendo o JSON.`;
+}
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-pro",
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-                // Define um limite máximo de tokens para a resposta, ajudando a controlar custos e garantir que a saída não seja excessivamente longa.
-                maxOutputTokens: 8192,
-                // Aloca um orçamento de tokens para o "pensamento" do modelo, permitindo um raciocínio mais complexo para tarefas como pesquisa e estruturação de conteúdo.
-                thinkingConfig: { thinkingBudget: 16384 },
-            },
-        });
-        
-        const rawText = response.text;
-        
-        const markdownMatch = rawText.match(/```(?:json)?\s*(\{[\s\S]+\})\s*```/);
+// Lê o título do plano assim que ele aparece no início do JSON em streaming.
+function readStreamingTitle(partialJson: string): string | undefined {
+    const match = partialJson.match(/^\{\s*"title"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+    if (!match) return undefined;
+    try {
+        return JSON.parse(`"${match[1]}"`);
+    } catch {
+        return undefined;
+    }
+}
 
-        if (markdownMatch && markdownMatch[1]) {
-            jsonText = markdownMatch[1];
-        } else {
-            const startIndex = rawText.indexOf('{');
-            const endIndex = rawText.lastIndexOf('}');
+async function requestPlan(prompt: string, signal?: AbortSignal, onUpdate?: (update: PlanStreamUpdate) => void): Promise<Documentation> {
+    const settings = loadAISettings();
+    const stream = await getClient().models.generateContentStream({
+        model: settings.planModel,
+        contents: prompt,
+        config: {
+            tools: [{ googleSearch: {} }],
+            // Define um limite máximo de tokens para a resposta, ajudando a controlar custos e garantir que a saída não seja excessivamente longa.
+            maxOutputTokens: settings.planMaxOutputTokens,
+            // Aloca um orçamento de tokens para o "pensamento" do modelo, permitindo um raciocínio mais complexo para tarefas como pesquisa e estruturação de conteúdo.
+            thinkingConfig: { thinkingBudget: settings.planThinkingBudget },
+            abortSignal: signal,
+        },
+    });
 
-            if (startIndex === -1 || endIndex === -1 || endIndex < startIndex) {
-                console.error("Resposta completa da IA (não-JSON):", rawText);
-                throw new Error("A resposta da IA não contém um objeto JSON válido.");
-            }
-            jsonText = rawText.substring(startIndex, endIndex + 1);
+    // Enquanto nenhum texto chega, o modelo está pesquisando e "pensando"; depois, os tópicos
+    // concluídos são extraídos do JSON parcial a cada novo trecho recebido.
+    let rawText = '';
+    let finishReason: string | undefined;
+    let reportedPhase: PlanGenerationPhase = 'researching';
+    let reportedCount = 0;
+    onUpdate?.({ phase: reportedPhase, chapters: [] });
+
+    for await (const chunk of stream) {
+        rawText += chunk.text ?? '';
+        finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+
+        const jsonStart = rawText.indexOf('{');
+        if (!onUpdate || jsonStart === -1) continue;
+
+        const partialJson = rawText.substring(jsonStart);
+        const chapters = parseCompletedArrayItems(partialJson, 'chapters').filter(isValidChapter);
+        const phase: PlanGenerationPhase = chapters.length > 0 ? 'writing' : 'structuring';
+        if (phase !== reportedPhase || chapters.length !== reportedCount) {
+            reportedPhase = phase;
+            reportedCount = chapters.length;
+            onUpdate({ phase, title: readStreamingTitle(partialJson), chapters: normalizeDocumentation({ title: '', chapters }).chapters });
         }
-        
-        const docData = JSON.parse(jsonText);
+    }
+
+    return parseStudyPlan(rawText, finishReason === 'MAX_TOKENS', signal);
+}
 
-        if (!docData.title || !Array.isArray(docData.chapters)) {
-          throw new Error("A resposta da IA não está no formato esperado.");
+// Analisa e valida a resposta. JSON truncado é recuperado localmente sempre que possível.
+function parseAndValidate(rawText: string): { data: unknown; issues: ValidationIssue[] } {
+    let jsonText: string;
+    try {
+        jsonText = extractJson(rawText);
+    } catch {
+        return { data: undefined, issues: [{ path: '(raiz)', message: 'a resposta não contém um objeto JSON' }] };
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(jsonText);
+    } catch {
+        data = repairTruncatedJson(jsonText);
+        if (data === undefined) {
+            return { data, issues: [{ path: '(raiz)', message: 'JSON malformado que não pôde ser recuperado' }] };
         }
+    }
+    return { data, issues: validateDocumentation(data) };
+}
+
+// Segunda passagem: pede a um modelo rápido, com o esquema declarado, que corrija e complete o JSON.
+async function requestPlanRepair(rawText: string, issues: ValidationIssue[], truncated: boolean, signal?: AbortSignal): Promise<string> {
+    const prompt = `O texto abaixo deveria ser um plano de estudo em JSON, mas ${truncated ? 'a resposta foi truncada por limite de tamanho' : 'está malformado ou incompleto'}.
+
+**Problemas encontrados:**
+${issues.length > 0 ? issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n') : '- a resposta terminou antes do fim do JSON'}
+
+**Tarefa:**
+Reescreva o plano como um JSON válido no esquema solicitado, preservando integralmente o conteúdo existente (títulos, textos em Markdown, exemplos e links).
+Corrija os campos com problema. Se o texto terminar no meio de um tópico, conclua esse tópico de forma breve e coerente.
+
+**Resposta original:**
+${rawText}`;
+
+    const settings = loadAISettings();
+    const response = await getClient().models.generateContent({
+        model: settings.planModel,
+        contents: prompt,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: DOCUMENTATION_SCHEMA,
+            // O reparo precisa reproduzir o plano inteiro, então recebe uma cota de saída maior e pouco "pensamento".
+            // O orçamento configurado é só limitado, e não zerado, porque alguns modelos (ex: gemini-2.5-pro) não permitem desativá-lo.
+            maxOutputTokens: 32768,
+            thinkingConfig: { thinkingBudget: Math.min(settings.planThinkingBudget, REPAIR_THINKING_BUDGET) },
+            abortSignal: signal,
+        },
+    });
+    return response.text ?? '';
+}
 
-        return docData;
+// A chamada principal usa a busca na web, que a API não permite combinar com um esquema de resposta;
+// por isso a validação é feita aqui, com uma passagem de reparo automática quando necessário.
+async function parseStudyPlan(rawText: string, truncated: boolean, signal?: AbortSignal): Promise<Documentation> {
+    const { data, issues } = parseAndValidate(rawText);
+    if (issues.length === 0 && !truncated) {
+        return normalizeDocumentation(data as Documentation);
+    }
+
+    console.warn("Plano inválido ou truncado; iniciando reparo automático.", issues);
+    let finalIssues = issues;
+    try {
+        const repaired = parseAndValidate(await requestPlanRepair(rawText, issues, truncated, signal));
+        if (repaired.issues.length === 0) {
+            return normalizeDocumentation(repaired.data as Documentation);
+        }
+        // Se o reparo também falhar, o relatório da resposta original é o mais útil, exceto quando ela não tinha problemas.
+        if (issues.length === 0) finalIssues = repaired.issues;
     } catch (error) {
-        console.error("Erro ao gerar plano de estudo:", error);
-        if (error instanceof SyntaxError) {
-            console.error("Texto JSON que falhou na análise:", jsonText);
-            throw new Error("A resposta da IA não era um JSON válido. Tente novamente.");
+        if (signal?.aborted) throw error;
+        console.error("Falha no reparo automático do plano:", error);
+    }
+
+    // Uma resposta truncada que foi fechada localmente ainda é melhor do que nenhum plano.
+    if (issues.length === 0) {
+        return normalizeDocumentation(data as Documentation);
+    }
+    throw new PlanValidationError(finalIssues);
+}
+
+interface MergePlan {
+    title: string;
+    chapters: { title: string; parts: string[] }[];
+}
+
+// Pede ao modelo apenas a estrutura final (títulos e quais capítulos parciais compõem cada um),
+// o que mantém a resposta pequena independentemente do volume de conteúdo.
+async function requestMergePlan(partials: Documentation[], studyTopic: string, signal?: AbortSignal): Promise<MergePlan> {
+    const outline = partials.map((partial, p) =>
+        partial.chapters.map((chapter, c) => {
+            const subTitles = chapter.subChapters?.map(sub => sub.title).join('; ');
+            return `- [${p + 1}.${c + 1}] ${chapter.title}${subTitles ? ` (subtópicos: ${subTitles})` : ''}`;
+        }).join('\n')
+    ).join('\n');
+
+    const prompt = `Você é o Cortex DeepMind. Um material de estudo extenso sobre "${studyTopic}" foi processado em partes, e cada parte gerou capítulos parciais.
+
+**Capítulos parciais (identificador entre colchetes):**
+${outline}
+
+**Tarefa:**
+Organize esses capítulos parciais em um único plano de estudo coeso:
+1.  Agrupe capítulos parciais que tratam do mesmo assunto em um único capítulo.
+2.  Ordene os capítulos em uma sequência lógica de aprendizado.
+3.  Use todos os identificadores exatamente uma vez.
+4.  Defina um título geral que reflita claramente o tema de estudo (use o nome oficial, se for um exame).
+
+Responda com o título geral e a lista de capítulos, em que "parts" contém os identificadores dos capítulos parciais (ex: ["1.2", "3.1"]).`;
+
+    const response = await getClient().models.generateContent({
+        model: loadAISettings().planModel,
+        contents: prompt,
+        config: { responseMimeType: "application/json", responseSchema: MERGE_PLAN_SCHEMA, abortSignal: signal },
+    });
+    const mergePlan = JSON.parse(response.text ?? '') as MergePlan;
+    if (!mergePlan.title || !Array.isArray(mergePlan.chapters)) {
+        throw new Error("O plano de mesclagem retornado pela IA está incompleto.");
+    }
+    return mergePlan;
+}
+
+// Combina os capítulos parciais de acordo com o plano de mesclagem. Capítulos que o modelo
+// não referenciou são anexados ao final para que nenhum conteúdo seja perdido.
+function mergePartialPlans(partials: Documentation[], mergePlan: MergePlan | null): Documentation {
+    const byId = new Map<string, Chapter>();
+    partials.forEach((partial, p) => partial.chapters.forEach((chapter, c) => byId.set(`${p + 1}.${c + 1}`, chapter)));
+
+    const used = new Set<string>();
+    const chapters: Chapter[] = [];
+
+    mergePlan?.chapters.forEach(entry => {
+        const parts = (entry.parts ?? []).filter(id => byId.has(id) && !used.has(id));
+        if (parts.length === 0) return;
+        parts.forEach(id => used.add(id));
+        const sources = parts.map(id => byId.get(id)!);
+        chapters.push({
+            title: entry.title || sources[0].title,
+            content: sources.map(chapter => chapter.content).filter(Boolean).join('\n\n'),
+            subChapters: sources.flatMap(chapter => chapter.subChapters ?? []),
+        });
+    });
+
+    byId.forEach((chapter, id) => {
+        if (!used.has(id)) chapters.push(chapter);
+    });
+
+    return { title: mergePlan?.title || partials[0]?.title || 'Plano de Estudo', chapters };
+}
+
+// Pipeline map-reduce para conjuntos grandes de materiais: cada bloco gera capítulos parciais
+// e, em seguida, os capítulos são mesclados em um único plano.
+async function generateStudyPlanInChunks(files: SourceFile[], studyTopic: string, additionalTopics: string, options: StudyPlanOptions): Promise<Documentation> {
+    const { onProgress, signal } = options;
+    const chunks = chunkSources(files, CHUNK_TOKEN_BUDGET);
+
+    // Os tópicos já concluídos de cada parte são exibidos juntos, na ordem das partes.
+    const partChapters: Chapter[][] = chunks.map(() => []);
+    let completedParts = 0;
+    // Cancela as partes em andamento quando o usuário cancela ou quando uma delas falha: o plano não
+    // será concluído, e as demais requisições só consumiriam a cota e atualizariam a tela à toa.
+    const partsController = new AbortController();
+    const abortParts = () => partsController.abort();
+    if (signal?.aborted) abortParts();
+    signal?.addEventListener('abort', abortParts, { once: true });
+
+    const report = (phase: PlanGenerationPhase) => {
+        if (partsController.signal.aborted) return;
+        onProgress?.({
+            phase,
+            chapters: partChapters.flat(),
+            part: { current: Math.min(completedParts + 1, chunks.length), total: chunks.length },
+        });
+    };
+
+    let partials: Documentation[];
+    try {
+        partials = await mapWithConcurrency(chunks, MAP_CONCURRENCY, async (chunk, index) => {
+            const scopeNote = `
+**Escopo desta Chamada:**
+O material foi dividido em ${chunks.length} partes por ser extenso; esta é a parte ${index + 1} de ${chunks.length}.
+Gere capítulos **somente** para o conteúdo desta parte. Os capítulos de todas as partes serão mesclados depois, portanto não tente cobrir o tema inteiro aqui.
+`;
+            try {
+                const partial = await requestPlan(buildPlanPrompt({ files: chunk }, studyTopic, additionalTopics, scopeNote), partsController.signal, update => {
+                    partChapters[index] = update.chapters;
+                    report(update.phase);
+                });
+                partChapters[index] = partial.chapters;
+                completedParts++;
+                return partial;
+            } catch (error) {
+                abortParts();
+                throw error;
+            }
+        });
+    } finally {
+        signal?.removeEventListener('abort', abortParts);
+    }
+
+    report('merging');
+    let mergePlan: MergePlan | null = null;
+    try {
+        mergePlan = await requestMergePlan(partials, studyTopic, signal);
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        // Sem o plano de mesclagem, os capítulos parciais são mantidos na ordem original.
+        console.error("Erro ao mesclar os planos parciais:", error);
+    }
+
+    return mergePartialPlans(partials, mergePlan);
+}
+
+export async function generateStudyPlan(
+    source: PlanSourceInput,
+    studyTopic: string,
+    additionalTopics: string,
+    options: StudyPlanOptions = {}
+): Promise<Documentation> {
+    const { onProgress, signal } = options;
+    // Valida a configuração antes de começar, para que a falta da chave não seja mascarada pelo erro genérico abaixo.
+    getClient();
+    try {
+        if (source.files && estimateSourceTokens(source.files) > CHUNK_TOKEN_BUDGET) {
+            return await generateStudyPlanInChunks(source.files, studyTopic, additionalTopics, options);
         }
-        if (error instanceof Error && (error.message.includes("JSON válido") || error.message.includes("formato esperado"))) {
-             throw error;
+        return await requestPlan(buildPlanPrompt(source, studyTopic, additionalTopics), signal, onProgress);
+    } catch (error) {
+        // O cancelamento é propagado como está, para que a interface possa distingui-lo de uma falha.
+        if (signal?.aborted) {
+            throw error;
+        }
+        console.error("Erro ao gerar plano de estudo:", error);
+        if (error instanceof PlanValidationError) {
+            throw error;
         }
         throw new Error("Não foi possível gerar o plano de estudo. Verifique os dados ou tente novamente mais tarde.");
     }
 }
 
 
-export async function generateSpeech(text: string, voice: string): Promise<string> {
+export async function generateSpeech(text: string, voice: string, signal?: AbortSignal): Promise<string> {
+    const ai = getClient();
+    const { ttsModel } = loadAISettings();
     try {
         if (!text || text.trim().length === 0) {
             throw new Error("O texto para gerar áudio não pode estar vazio.");
         }
         const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
+            model: ttsModel,
             contents: [{ parts: [{ text: text }] }],
             config: {
                 responseModalities: [Modality.AUDIO],
@@ -139,6 +507,7 @@ export async function generateSpeech(text: string, voice: string): Promise<strin
                         prebuiltVoiceConfig: { voiceName: voice },
                     },
                 },
+                abortSignal: signal,
             },
         });
 
@@ -148,12 +517,15 @@ export async function generateSpeech(text: string, voice: string): Promise<strin
         }
         return base64Audio;
     } catch (error) {
+        if (signal?.aborted) throw error;
         console.error("Erro ao gerar áudio:", error);
         throw new Error("Não foi possível gerar o áudio para este capítulo.");
     }
 }
 
-export async function generateChapterSummary(chapterTitle: string, chapterContent: string): Promise<string> {
+export async function generateChapterSummary(chapterTitle: string, chapterContent: string, signal?: AbortSignal): Promise<string> {
+    const ai = getClient();
+    const settings = loadAISettings();
     try {
         const prompt = `Você é um assistente de IA especialista em resumir textos técnicos.
 Sua tarefa é criar um resumo conciso e informativo do tópico de um plano de estudo.
@@ -174,21 +546,128 @@ ${chapterContent}
 Responda exclusivamente com o resumo em Markdown.`;
 
         const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
+            model: settings.summaryModel,
             contents: prompt,
             config: {
                 // Garante que o resumo seja conciso, limitando o número de tokens na saída.
-                maxOutputTokens: 1024,
+                maxOutputTokens: settings.summaryMaxOutputTokens,
                 // O 'thinkingBudget' reserva uma parte dos tokens para o processamento interno,
                 // deixando o restante (maxOutputTokens - thinkingBudget) para o texto final do resumo.
-                thinkingConfig: { thinkingBudget: 512 },
+                thinkingConfig: { thinkingBudget: settings.summaryThinkingBudget },
+                abortSignal: signal,
             },
         });
         
         return response.text.trim();
 
     } catch (error) {
+        if (signal?.aborted) throw error;
         console.error("Erro ao gerar resumo do tópico:", error);
         throw new Error("Não foi possível gerar o resumo para este tópico. Tente novamente.");
     }
-}
\ No newline at end of file
+}
+
+export async function generateChapterQuiz(chapterTitle: string, chapterContent: string, questionCount: number, signal?: AbortSignal): Promise<QuizQuestion[]> {
+    const ai = getClient();
+    const settings = loadAISettings();
+    const sections = listSectionTitles(chapterContent);
+    try {
+        const prompt = `Você é um assistente de IA especialista em preparar candidatos para exames de certificação.
+Sua tarefa é criar um questionário de prática sobre o tópico de um plano de estudo.
+
+**Título do Tópico:** "${chapterTitle}"
+
+**Conteúdo do Tópico:**
+---
+${chapterContent}
+---
+
+**Instruções:**
+1.  Crie ${questionCount} questões baseadas **exclusivamente** no conteúdo acima. Não cobre nada que não esteja no texto.
+2.  Misture questões de resposta única ("single") e de múltiplas respostas ("multiple", em que o candidato marca todas as alternativas corretas).
+3.  Cada questão deve ter de 4 a 5 alternativas plausíveis; "correctOptions" traz os índices (a partir de 0) das corretas.
+4.  Na "explanation", explique por que as alternativas corretas estão certas e por que as demais estão erradas.
+5.  ${sections.length > 0
+        ? `Em "section", informe o título exato da seção que fundamenta a resposta, escolhido desta lista: ${sections.map(section => `"${section}"`).join(', ')}.`
+        : 'Deixe "section" em branco, pois o tópico não tem seções.'}
+6.  Escreva no mesmo idioma do conteúdo.`;
+
+        const response = await ai.models.generateContent({
+            model: settings.summaryModel,
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: QUIZ_SCHEMA,
+                maxOutputTokens: QUIZ_MAX_OUTPUT_TOKENS,
+                thinkingConfig: { thinkingBudget: settings.summaryThinkingBudget },
+                abortSignal: signal,
+            },
+        });
+
+        const data = JSON.parse(response.text ?? '');
+        const issues = validateQuiz(data);
+        if (issues.length > 0) {
+            throw new PlanValidationError(issues);
+        }
+        // Seções que não existem no tópico não teriam para onde levar o usuário.
+        return normalizeQuiz((data as { questions: QuizQuestion[] }).questions)
+            .map(question => question.section && !sections.includes(question.section) ? { ...question, section: undefined } : question);
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Erro ao gerar questionário do tópico:", error);
+        throw new Error("Não foi possível gerar o questionário para este tópico. Tente novamente.");
+    }
+}
+
+export async function generateChapterFlashcards(chapterTitle: string, chapterContent: string, signal?: AbortSignal): Promise<FlashcardContent[]> {
+    const ai = getClient();
+    const settings = loadAISettings();
+    try {
+        const prompt = `Você é um assistente de IA especialista em técnicas de memorização para exames de certificação.
+Sua tarefa é criar cartões de revisão (flashcards) sobre o tópico de um plano de estudo.
+
+**Título do Tópico:** "${chapterTitle}"
+
+**Conteúdo do Tópico:**
+---
+${chapterContent}
+---
+
+**Instruções:**
+1.  Crie de 5 a 12 cartões, conforme a quantidade de informação do tópico, baseados **exclusivamente** no conteúdo acima.
+2.  Cada cartão cobre um único fato, conceito, comando ou limite que vale a pena memorizar.
+3.  A pergunta deve ser direta e ter uma única resposta correta; a resposta deve ser curta (no máximo duas frases).
+4.  Escreva no mesmo idioma do conteúdo.`;
+
+        const response = await ai.models.generateContent({
+            model: settings.summaryModel,
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: FLASHCARDS_SCHEMA,
+                maxOutputTokens: QUIZ_MAX_OUTPUT_TOKENS,
+                thinkingConfig: { thinkingBudget: settings.summaryThinkingBudget },
+                abortSignal: signal,
+            },
+        });
+
+        const data = JSON.parse(response.text ?? '');
+        const issues = validateFlashcards(data);
+        if (issues.length > 0) {
+            throw new PlanValidationError(issues);
+        }
+        return (data as { cards: FlashcardContent[] }).cards.map(card => ({ question: card.question.trim(), answer: card.answer.trim() }));
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Erro ao gerar cartões do tópico:", error);
+        throw new Error("Não foi possível gerar os cartões para este tópico. Tente novamente.");
+    }
+}
+
+export const geminiProvider: AIProvider = {
+    generateStudyPlan,
+    generateChapterSummary,
+    generateChapterQuiz,
+    generateChapterFlashcards,
+    generateSpeech,
+};
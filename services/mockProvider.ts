@@ -0,0 +1,177 @@
+// services/mockProvider.ts
+// Provedor local e determinístico, sem acesso à rede: retorna planos, questionários e cartões de exemplo e áudio silencioso.
+// Útil para desenvolver a interface e rodar testes sem uma chave de API.
+
+import { Chapter, Documentation, QuizQuestion } from '../types';
+import { encode } from '../utils/audioUtils';
+import { listSectionTitles } from '../utils/quiz';
+import { FlashcardContent } from '../utils/flashcardValidation';
+import { AIProvider, PlanSourceInput, StudyPlanOptions } from './aiProvider';
+
+// Mesmo formato de áudio do Gemini TTS: PCM 16 bits, mono, 24 kHz.
+const SAMPLE_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+// Ritmo aproximado de leitura usado para calcular a duração do áudio silencioso.
+const WORDS_PER_SECOND = 2.5;
+// Pequena espera entre as etapas, apenas para que os estados de carregamento da interface sejam visíveis.
+const STEP_DELAY_MS = 150;
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Operação cancelada.', 'AbortError'));
+            return;
+        }
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(new DOMException('Operação cancelada.', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function describeSource(source: PlanSourceInput): string {
+    if (source.url) return `a página ${source.url}`;
+    const names = (source.files ?? []).map(file => `\`${file.name}\``);
+    return names.length > 0 ? `os arquivos ${names.join(', ')}` : 'os materiais enviados';
+}
+
+export function buildMockStudyPlan(source: PlanSourceInput, studyTopic: string, additionalTopics: string): Documentation {
+    const topic = studyTopic.trim() || 'Tema de exemplo';
+    const extraTopics = additionalTopics.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+    const chapters: Chapter[] = [
+        {
+            title: 'Visão Geral do Exame',
+            content: `Este é um plano de exemplo para **${topic}**, gerado localmente a partir de ${describeSource(source)}.\n\n- Público-alvo: profissionais que estão se preparando para a certificação.\n- Formato: questões de múltipla escolha.\n- Duração sugerida de estudo: 4 semanas.`,
+            subChapters: [],
+        },
+        {
+            title: 'Fundamentos',
+            content: `Conceitos essenciais de ${topic} que aparecem em todo o exame.`,
+            subChapters: [
+                {
+                    title: 'Conceitos Básicos',
+                    content: 'Revise a terminologia principal e os componentes da arquitetura.\n\n| Termo | Definição |\n| --- | --- |\n| Recurso | Unidade gerenciável do serviço |\n| Política | Conjunto de permissões |',
+                    subChapters: [],
+                },
+                {
+                    title: 'Primeiros Passos',
+                    content: 'Exemplo de comando para configurar o ambiente:\n\n```bash\ncli configure --profile estudo\n```',
+                    subChapters: [],
+                },
+            ],
+        },
+        {
+            title: 'Segurança e Boas Práticas',
+            content: '1. Aplique o princípio do menor privilégio.\n2. Monitore e registre os acessos.\n3. Automatize as verificações de conformidade.',
+            subChapters: [],
+        },
+        ...extraTopics.map(extra => ({
+            title: extra,
+            content: `Tópico adicional solicitado: **${extra}**.`,
+            subChapters: [],
+        })),
+        {
+            title: 'Revisão Final',
+            content: `Refaça os simulados, revise os tópicos com menor desempenho e consulte a documentação oficial de ${topic}.`,
+            subChapters: [],
+        },
+    ];
+
+    return { title: `Plano de Estudo: ${topic}`, chapters };
+}
+
+async function generateStudyPlan(source: PlanSourceInput, studyTopic: string, additionalTopics: string, options: StudyPlanOptions = {}): Promise<Documentation> {
+    const { onProgress, signal } = options;
+    const plan = buildMockStudyPlan(source, studyTopic, additionalTopics);
+
+    onProgress?.({ phase: 'researching', chapters: [] });
+    await delay(STEP_DELAY_MS, signal);
+    onProgress?.({ phase: 'structuring', title: plan.title, chapters: [] });
+    for (let count = 1; count <= plan.chapters.length; count++) {
+        await delay(STEP_DELAY_MS, signal);
+        onProgress?.({ phase: 'writing', title: plan.title, chapters: plan.chapters.slice(0, count) });
+    }
+    return plan;
+}
+
+async function generateChapterSummary(chapterTitle: string, chapterContent: string, signal?: AbortSignal): Promise<string> {
+    await delay(STEP_DELAY_MS, signal);
+    const firstParagraph = chapterContent.split(/\n{2,}/)[0]?.trim() ?? '';
+    return `### Resumo: ${chapterTitle}\n\n${firstParagraph}\n\n*Resumo de exemplo gerado localmente.*`;
+}
+
+// Frases do conteúdo sem a marcação Markdown, usadas como "fatos" nos questionários e cartões de exemplo.
+const splitSentences = (markdown: string) => markdown
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map(line => line.replace(/^[#>*\-\d.|\s]+/, '').replace(/[*_`|]/g, '').trim())
+    .filter(line => line.length > 10);
+
+const WRONG_OPTIONS = [
+    'Esta afirmação não aparece no conteúdo do tópico.',
+    'O tópico afirma exatamente o contrário.',
+    'Nenhuma das alternativas anteriores.',
+];
+
+// Monta as questões com frases do próprio tópico como alternativas corretas, alternando os tipos de questão.
+async function generateChapterQuiz(chapterTitle: string, chapterContent: string, questionCount: number, signal?: AbortSignal): Promise<QuizQuestion[]> {
+    await delay(STEP_DELAY_MS, signal);
+    const sentences = splitSentences(chapterContent);
+    const facts = sentences.length > 0 ? sentences : [`${chapterTitle} faz parte do plano de estudo.`];
+    const sections = listSectionTitles(chapterContent);
+
+    return Array.from({ length: questionCount }, (_, index) => {
+        const isMultiple = index % 2 === 1 && facts.length > 1;
+        const options = isMultiple ? [facts[index % facts.length], facts[(index + 1) % facts.length]] : [facts[index % facts.length]];
+        const correctCount = options.length;
+        options.push(...WRONG_OPTIONS.slice(0, 4 - correctCount));
+        // Gira as alternativas para que a correta não fique sempre na mesma posição.
+        const shift = index % options.length;
+        const rotated = [...options.slice(shift), ...options.slice(0, shift)];
+        return {
+            type: isMultiple ? 'multiple' : 'single',
+            question: `Questão ${index + 1} sobre "${chapterTitle}": ${isMultiple ? 'quais afirmações estão de acordo com o tópico?' : 'qual afirmação está de acordo com o tópico?'}`,
+            options: rotated,
+            correctOptions: options.slice(0, correctCount).map(option => rotated.indexOf(option)).sort((a, b) => a - b),
+            explanation: 'Questão de exemplo gerada localmente: as alternativas corretas foram copiadas do conteúdo do tópico.',
+            ...(sections.length > 0 ? { section: sections[index % sections.length] } : {}),
+        };
+    });
+}
+
+// Um cartão por frase do tópico (até 6), com a frase completa como resposta.
+async function generateChapterFlashcards(chapterTitle: string, chapterContent: string, signal?: AbortSignal): Promise<FlashcardContent[]> {
+    await delay(STEP_DELAY_MS, signal);
+    const sentences = splitSentences(chapterContent).slice(0, 6);
+    if (sentences.length === 0) {
+        return [{ question: `Qual é o assunto do tópico "${chapterTitle}"?`, answer: chapterTitle }];
+    }
+    return sentences.map((sentence, index) => ({
+        question: `${chapterTitle} (${index + 1}): complete a ideia "${sentence.split(/\s+/).slice(0, 4).join(' ')}..."`,
+        answer: sentence,
+    }));
+}
+
+// Gera silêncio com duração proporcional ao tamanho do texto.
+async function generateSpeech(text: string, _voice: string, signal?: AbortSignal): Promise<string> {
+    if (!text || text.trim().length === 0) {
+        throw new Error("O texto para gerar áudio não pode estar vazio.");
+    }
+    await delay(STEP_DELAY_MS, signal);
+    const words = text.trim().split(/\s+/).length;
+    const seconds = Math.max(1, Math.ceil(words / WORDS_PER_SECOND));
+    return encode(new Uint8Array(seconds * SAMPLE_RATE * BYTES_PER_SAMPLE));
+}
+
+export const mockProvider: AIProvider = {
+    generateStudyPlan,
+    generateChapterSummary,
+    generateChapterQuiz,
+    generateChapterFlashcards,
+    generateSpeech,
+};
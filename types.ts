@@ -9,7 +9,147 @@ export interface Documentation {
   chapters: Chapter[];
 }
 
+// Como cada elemento do Markdown é tratado na narração.
+export interface SpeechOptions {
+    headings: 'announce' | 'plain' | 'skip';
+    codeBlocks: 'summarize' | 'read' | 'skip';
+    links: 'text' | 'textAndDomain';
+    tables: 'verbalize' | 'summarize' | 'skip';
+    images: 'alt' | 'skip';
+}
+
+// Modos de escuta do player: avançar pelos tópicos, ouvir só os resumos ou repetir o tópico atual.
+export type ListeningMode = 'sequential' | 'summariesOnly' | 'repeatChapter';
+
+// Timer para parar a narração depois de alguns minutos ou ao fim do áudio atual.
+export type SleepTimer = { type: 'minutes'; endsAt: number } | { type: 'endOfChapter' };
+
+export interface VoiceProfile {
+    voice: string;
+    speed: number;
+}
+
+// Idiomas com perfil de voz próprio (detectados a partir do conteúdo do plano).
+export type PlanLanguage = 'pt' | 'en';
+
 export interface AudioConfig {
     voice: string;
     speed: number;
-}
\ No newline at end of file
+    speech: SpeechOptions;
+}
+
+// Configurações de IA definidas pelo próprio usuário e salvas apenas no navegador (localStorage).
+export interface AISettings {
+    apiKey: string;
+    planModel: string;
+    summaryModel: string;
+    ttsModel: string;
+    planMaxOutputTokens: number;
+    planThinkingBudget: number;
+    summaryMaxOutputTokens: number;
+    summaryThinkingBudget: number;
+}
+
+export interface PlanSource {
+    type: 'files' | 'url';
+    files?: { name: string; size: number }[];
+    url?: string;
+}
+
+// Plano de estudo salvo na biblioteca local (IndexedDB).
+export interface StoredStudyPlan {
+    id: string;
+    topic: string;
+    additionalTopics: string;
+    source: PlanSource;
+    doc: Documentation;
+    // Resumos já gerados, pelo índice do tópico na lista do sumário (tópicos e subtópicos em ordem de leitura).
+    summaries?: Record<number, string>;
+    // Voz e velocidade próprias do plano, com prioridade sobre o perfil do idioma e a configuração padrão.
+    voiceProfile?: VoiceProfile;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type PlanGenerationPhase = 'researching' | 'structuring' | 'writing' | 'merging';
+
+// Progresso da geração em streaming: os tópicos já concluídos podem ser exibidos antes do fim da resposta.
+export interface PlanProgress {
+    phase: PlanGenerationPhase;
+    title?: string;
+    chapters: Chapter[];
+    part?: { current: number; total: number };
+}
+
+// Metadados de um clipe do cache de áudio, guardados separados do áudio para que
+// o cálculo de uso e o descarte (LRU) não precisem carregar os clipes.
+export interface AudioClipMetadata {
+    id: string;
+    voice: string;
+    // Plano e tópico em que o clipe foi gerado (nulos quando gerado fora de um plano salvo).
+    planId: string | null;
+    chapterIndex: number | null;
+    bytes: number;
+    createdAt: number;
+    lastUsed: number;
+}
+
+// Uso do cache de áudio por plano.
+export interface AudioCacheUsage {
+    planId: string | null;
+    clipCount: number;
+    bytes: number;
+    lastUsed: number;
+}
+
+// 'single': uma alternativa correta; 'multiple': uma ou mais alternativas corretas (marque todas as que se aplicam).
+export type QuizQuestionType = 'single' | 'multiple';
+
+export interface QuizQuestion {
+    type: QuizQuestionType;
+    question: string;
+    options: string[];
+    // Índices das alternativas corretas em `options`.
+    correctOptions: number[];
+    explanation: string;
+    // Título da seção do tópico que fundamenta a resposta, quando houver uma.
+    section?: string;
+}
+
+// Tentativa de resposta a um questionário, guardada no histórico do plano (IndexedDB).
+export interface QuizAttempt {
+    id: string;
+    planId: string;
+    chapterIndex: number;
+    chapterTitle: string;
+    questions: QuizQuestion[];
+    // Alternativas marcadas em cada questão, na mesma ordem de `questions`.
+    answers: number[][];
+    score: number;
+    completedAt: number;
+}
+
+// Nota dada a um cartão na revisão, na escala do SM-2: abaixo de 3 o cartão é considerado esquecido.
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+// Cartão de revisão (pergunta e resposta) de um tópico, com o agendamento da repetição espaçada.
+export interface Flashcard {
+    id: string;
+    planId: string;
+    chapterIndex: number;
+    chapterTitle: string;
+    question: string;
+    answer: string;
+    createdAt: number;
+    // Estado do SM-2: fator de facilidade, intervalo atual em dias e revisões seguidas com acerto.
+    easeFactor: number;
+    interval: number;
+    repetitions: number;
+    // Quantas vezes o cartão foi esquecido depois de já ter sido aprendido.
+    lapses: number;
+    dueAt: number;
+    lastReviewedAt?: number;
+}
+
+// Etapa de estudo de um tópico, definida pelo usuário (o tópico passa a "lendo" ao ser aberto).
+export type ChapterStatus = 'not_started' | 'reading' | 'reviewed' | 'mastered';
@@ -0,0 +1,259 @@
+// utils/audioExport.ts
+// Exporta a narração de um tópico, de um resumo ou do plano inteiro como um único arquivo de áudio (WAV ou MP3),
+// concatenando os trechos já gerados (os que faltam são gerados e guardados no cache) na ordem dos tópicos.
+// Cada trecho é codificado assim que chega e o arquivo é montado a partir de partes de Blob, para que o plano
+// inteiro nunca precise caber em um único buffer de PCM.
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { Chapter, Documentation, SpeechOptions } from '../types';
+import { decode } from './audioUtils';
+import { getSpeechClip } from './speechCache';
+import { prepareSpeechParagraphs, splitIntoSpeechChunks } from './speechUtils';
+
+// Formato do áudio gerado pelo TTS: PCM 16 bits, mono, 24 kHz.
+const SAMPLE_RATE = 24000;
+// Silêncio entre um tópico e o seguinte.
+const SECTION_GAP_SECONDS = 1;
+const MP3_BITRATE_KBPS = 64;
+// Amostras passadas ao codificador MP3 de cada vez (múltiplo do quadro MP3 de 1152 amostras).
+const MP3_BLOCK_SAMPLES = 1152 * 200;
+
+export type AudioExportFormat = 'wav' | 'mp3';
+
+export interface AudioExportSection {
+    title: string;
+    markdown: string;
+    // Tópico de origem (índice no sumário), registrado com os clipes no cache.
+    chapterIndex?: number;
+}
+
+export interface AudioExportProgress {
+    completed: number;
+    total: number;
+}
+
+export interface AudioExportOptions {
+    voice: string;
+    // Plano aberto, para que os clipes gerados na exportação contem no uso do cache desse plano.
+    planId?: string | null;
+    speech: SpeechOptions;
+    format: AudioExportFormat;
+    // Adiciona marcadores de capítulo no início de cada seção (cue points no WAV, capítulos ID3 no MP3).
+    chapterMarkers: boolean;
+    // Título gravado nos metadados do arquivo.
+    title?: string;
+    signal?: AbortSignal;
+    onProgress?: (progress: AudioExportProgress) => void;
+}
+
+interface AudioMarker {
+    label: string;
+    sampleOffset: number;
+}
+
+// Seções de um plano na ordem de leitura: cada tópico seguido dos seus subtópicos.
+export function planToExportSections(doc: Documentation): AudioExportSection[] {
+    const flatten = (chapters: Chapter[]): AudioExportSection[] => chapters.flatMap(chapter => [
+        { title: chapter.title, markdown: chapter.content },
+        ...flatten(chapter.subChapters ?? []),
+    ]);
+    return flatten(doc.chapters).map((section, chapterIndex) => ({ ...section, chapterIndex }));
+}
+
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Destino do áudio: recebe o PCM trecho a trecho e monta o arquivo no fim, quando a duração e os marcadores
+// (que vão no cabeçalho) já são conhecidos.
+interface AudioSink {
+    write(pcm: Int16Array): void;
+    finish(markers: AudioMarker[] | null, totalSamples: number): Blob;
+}
+
+// Gera (ou lê do cache) cada trecho e o entrega ao destino. Retorna os marcadores de seção e o total de amostras.
+async function streamSamples(sections: AudioExportSection[], sink: AudioSink, options: AudioExportOptions) {
+    const { voice, planId = null, speech, signal, onProgress } = options;
+    // O título de cada seção é narrado antes do conteúdo, para situar quem ouve fora do app.
+    const sectionChunks = sections.map(section =>
+        splitIntoSpeechChunks(prepareSpeechParagraphs(`## ${section.title}\n\n${section.markdown}`, speech)));
+    const total = sectionChunks.reduce((sum, chunks) => sum + chunks.length, 0);
+
+    const markers: AudioMarker[] = [];
+    let sampleCount = 0;
+    let completed = 0;
+    onProgress?.({ completed, total });
+
+    for (let i = 0; i < sections.length; i++) {
+        if (i > 0) {
+            const gap = new Int16Array(SECTION_GAP_SECONDS * SAMPLE_RATE);
+            sink.write(gap);
+            sampleCount += gap.length;
+        }
+        markers.push({ label: sections[i].title, sampleOffset: sampleCount });
+        const owner = { planId, chapterIndex: sections[i].chapterIndex ?? null };
+
+        for (const chunk of sectionChunks[i]) {
+            signal?.throwIfAborted();
+            const bytes = decode(await getSpeechClip(chunk.text, voice, signal, owner));
+            const pcm = new Int16Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 2));
+            sink.write(pcm);
+            sampleCount += pcm.length;
+            onProgress?.({ completed: ++completed, total });
+            await yieldToBrowser();
+        }
+    }
+    return { markers, sampleCount };
+}
+
+// Escreve os campos de um cabeçalho binário em sequência.
+class ByteWriter {
+    private bytes: number[] = [];
+
+    ascii(text: string) {
+        for (const char of text) this.bytes.push(char.charCodeAt(0) & 0xff);
+        return this;
+    }
+
+    uint8(value: number) {
+        this.bytes.push(value & 0xff);
+        return this;
+    }
+
+    uint16LE(value: number) {
+        this.bytes.push(value & 0xff, (value >>> 8) & 0xff);
+        return this;
+    }
+
+    uint32LE(value: number) {
+        this.bytes.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+        return this;
+    }
+
+    uint32BE(value: number) {
+        this.bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+        return this;
+    }
+
+    raw(data: Uint8Array | number[]) {
+        data.forEach(byte => this.bytes.push(byte));
+        return this;
+    }
+
+    get length() {
+        return this.bytes.length;
+    }
+
+    toUint8Array() {
+        return new Uint8Array(this.bytes);
+    }
+}
+
+// Marcadores no WAV: chunk "cue " com a posição de cada capítulo e rótulos em LIST/adtl/labl.
+function buildWavMarkerChunks(markers: AudioMarker[]): Uint8Array {
+    const cue = new ByteWriter().ascii('cue ').uint32LE(4 + markers.length * 24).uint32LE(markers.length);
+    markers.forEach((marker, i) => {
+        cue.uint32LE(i + 1).uint32LE(marker.sampleOffset).ascii('data').uint32LE(0).uint32LE(0).uint32LE(marker.sampleOffset);
+    });
+
+    const labels = new ByteWriter().ascii('adtl');
+    markers.forEach((marker, i) => {
+        const text = new TextEncoder().encode(marker.label);
+        labels.ascii('labl').uint32LE(4 + text.length + 1).uint32LE(i + 1).raw(text).uint8(0);
+        if ((text.length + 1) % 2 === 1) labels.uint8(0);
+    });
+    const list = new ByteWriter().ascii('LIST').uint32LE(labels.length).raw(labels.toUint8Array());
+
+    return new ByteWriter().raw(cue.toUint8Array()).raw(list.toUint8Array()).toUint8Array();
+}
+
+// Cada trecho vira uma parte de Blob; o cabeçalho, que depende do tamanho total, entra no fim.
+function createWavSink(): AudioSink {
+    const parts: Blob[] = [];
+    let dataSize = 0;
+    return {
+        write(pcm) {
+            parts.push(new Blob([new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)]));
+            dataSize += pcm.byteLength;
+        },
+        finish(markers) {
+            const markerChunks = markers && markers.length > 0 ? buildWavMarkerChunks(markers) : new Uint8Array(0);
+            const header = new ByteWriter()
+                .ascii('RIFF').uint32LE(36 + dataSize + markerChunks.length).ascii('WAVE')
+                .ascii('fmt ').uint32LE(16).uint16LE(1).uint16LE(1).uint32LE(SAMPLE_RATE).uint32LE(SAMPLE_RATE * 2).uint16LE(2).uint16LE(16)
+                .ascii('data').uint32LE(dataSize);
+            return new Blob([header.toUint8Array(), ...parts, markerChunks], { type: 'audio/wav' });
+        },
+    };
+}
+
+// Quadro ID3v2.3: identificador, tamanho (big-endian), flags e conteúdo.
+function id3Frame(id: string, body: Uint8Array): Uint8Array {
+    return new ByteWriter().ascii(id).uint32BE(body.length).uint16LE(0).raw(body).toUint8Array();
+}
+
+// Texto em UTF-16 com BOM (a codificação do ID3v2.3 que aceita acentos).
+function id3TextFrame(id: string, text: string): Uint8Array {
+    const body = new ByteWriter().uint8(1).uint8(0xff).uint8(0xfe);
+    for (let i = 0; i < text.length; i++) body.uint16LE(text.charCodeAt(i));
+    return id3Frame(id, body.toUint8Array());
+}
+
+// Tag ID3v2.3 com o título e os capítulos (quadros CTOC e CHAP), lida por players de podcast e audiolivro.
+function buildId3Tag(title: string | undefined, markers: AudioMarker[] | null, totalSamples: number): Uint8Array {
+    const frames = new ByteWriter();
+    if (title) frames.raw(id3TextFrame('TIT2', title));
+
+    // O índice (CTOC) registra no máximo 255 capítulos.
+    const chapters = (markers ?? []).slice(0, 255);
+    if (chapters.length > 0) {
+        const toMs = (samples: number) => Math.round((samples / SAMPLE_RATE) * 1000);
+        const toc = new ByteWriter().ascii('toc').uint8(0).uint8(0x03).uint8(chapters.length);
+        chapters.forEach((_, i) => toc.ascii(`ch${i}`).uint8(0));
+        frames.raw(id3Frame('CTOC', toc.toUint8Array()));
+
+        chapters.forEach((marker, i) => {
+            const end = i + 1 < chapters.length ? chapters[i + 1].sampleOffset : totalSamples;
+            const chap = new ByteWriter()
+                .ascii(`ch${i}`).uint8(0)
+                .uint32BE(toMs(marker.sampleOffset)).uint32BE(toMs(end))
+                .uint32BE(0xffffffff).uint32BE(0xffffffff)
+                .raw(id3TextFrame('TIT2', marker.label));
+            frames.raw(id3Frame('CHAP', chap.toUint8Array()));
+        });
+    }
+    if (frames.length === 0) return new Uint8Array(0);
+
+    // O tamanho da tag é "syncsafe": 7 bits por byte.
+    const size = frames.length;
+    return new ByteWriter()
+        .ascii('ID3').uint8(3).uint8(0).uint8(0)
+        .raw([(size >>> 21) & 0x7f, (size >>> 14) & 0x7f, (size >>> 7) & 0x7f, size & 0x7f])
+        .raw(frames.toUint8Array())
+        .toUint8Array();
+}
+
+// O codificador MP3 trabalha em fluxo: cada trecho é codificado ao chegar e só o MP3 fica na memória.
+function createMp3Sink(title: string | undefined): AudioSink {
+    const encoder = new Mp3Encoder(1, SAMPLE_RATE, MP3_BITRATE_KBPS);
+    const parts: Blob[] = [];
+    return {
+        write(pcm) {
+            for (let start = 0; start < pcm.length; start += MP3_BLOCK_SAMPLES) {
+                // O codificador reaproveita o buffer de saída, por isso cada bloco é copiado.
+                parts.push(new Blob([new Uint8Array(encoder.encodeBuffer(pcm.subarray(start, start + MP3_BLOCK_SAMPLES)))]));
+            }
+        },
+        finish(markers, totalSamples) {
+            parts.push(new Blob([new Uint8Array(encoder.flush())]));
+            return new Blob([buildId3Tag(title, markers, totalSamples), ...parts], { type: 'audio/mpeg' });
+        },
+    };
+}
+
+export async function exportAudio(sections: AudioExportSection[], options: AudioExportOptions): Promise<Blob> {
+    const sink = options.format === 'mp3' ? createMp3Sink(options.title) : createWavSink();
+    const { markers, sampleCount } = await streamSamples(sections, sink, options);
+    if (sampleCount === 0) {
+        throw new Error("Não há conteúdo narrável para exportar.");
+    }
+    return sink.finish(options.chapterMarkers ? markers : null, sampleCount);
+}
@@ -0,0 +1,148 @@
+// utils/audioPreparation.ts
+// Prepara um plano para estudo offline: gera os resumos que faltam e guarda no cache o áudio de todos os
+// tópicos e resumos. Como os trechos já gerados são pulados, retomar uma preparação interrompida é só executá-la de novo.
+
+import { getAIProvider } from '../services/aiProvider';
+import { Chapter, SpeechOptions, StoredStudyPlan } from '../types';
+import { mapWithConcurrency } from './concurrency';
+import { saveChapterSummary } from './db';
+import { ensureSpeechClip } from './speechCache';
+import { loadAudioCacheQuotaMB } from './settings';
+import { prepareSpeechParagraphs, splitIntoSpeechChunks } from './speechUtils';
+
+// Requisições simultâneas ao provedor durante a preparação.
+const PREPARATION_CONCURRENCY = 3;
+// Tamanho estimado no cache por caractere narrado: PCM 16 bits mono a 24 kHz (48 kB/s), guardado em
+// base64 (+1/3), a cerca de 15 caracteres falados por segundo.
+const ESTIMATED_CACHE_BYTES_PER_CHAR = (24000 * 2 * 4) / 3 / 15;
+const PENDING_JOB_STORAGE_KEY = 'cortexAudioPreparation';
+
+// A preparação vale para uma voz e um conjunto de opções de narração: mudar qualquer um deles muda os trechos.
+export interface AudioPreparationJob {
+    planId: string;
+    voice: string;
+    speech: SpeechOptions;
+}
+
+export interface AudioPreparationFailure {
+    label: string;
+    message: string;
+}
+
+export interface AudioPreparationProgress {
+    stage: 'summaries' | 'audio';
+    completed: number;
+    total: number;
+    failures: AudioPreparationFailure[];
+}
+
+interface PreparationOptions {
+    signal: AbortSignal;
+    onProgress: (progress: AudioPreparationProgress) => void;
+}
+
+interface ClipTask {
+    text: string;
+    label: string;
+    chapterIndex: number;
+}
+
+// Tópicos e subtópicos na mesma ordem (e com os mesmos índices) do sumário exibido no app.
+const flattenChapters = (chapters: Chapter[]): Chapter[] =>
+    chapters.flatMap(chapter => [chapter, ...flattenChapters(chapter.subChapters ?? [])]);
+
+// Interrompe a preparação se o áudio estimado não couber no limite do cache: o descarte por uso
+// apagaria os primeiros trechos do próprio plano enquanto os últimos são gerados.
+function assertFitsInAudioCache(texts: string[]) {
+    const estimatedMB = texts.reduce((sum, text) => sum + text.length, 0) * ESTIMATED_CACHE_BYTES_PER_CHAR / (1024 * 1024);
+    const quotaMB = loadAudioCacheQuotaMB();
+    if (estimatedMB > quotaMB) {
+        throw new Error(`O áudio deste plano ocupa cerca de ${Math.ceil(estimatedMB)} MB e não cabe no limite do cache (${quotaMB} MB). Aumente o limite nas configurações para prepará-lo offline.`);
+    }
+}
+
+// Job interrompido por um recarregamento da página, para ser retomado na próxima visita.
+export function loadPendingPreparation(): AudioPreparationJob | null {
+    try {
+        const saved = localStorage.getItem(PENDING_JOB_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+        console.error("Falha ao carregar a preparação de áudio pendente", error);
+        return null;
+    }
+}
+
+export function savePendingPreparation(job: AudioPreparationJob | null) {
+    try {
+        if (job) localStorage.setItem(PENDING_JOB_STORAGE_KEY, JSON.stringify(job));
+        else localStorage.removeItem(PENDING_JOB_STORAGE_KEY);
+    } catch (error) {
+        console.error("Falha ao salvar a preparação de áudio pendente", error);
+    }
+}
+
+// Retorna as falhas; o cancelamento (via `signal`) é propagado como erro.
+export async function prepareAudioForPlan(plan: StoredStudyPlan, job: AudioPreparationJob, options: PreparationOptions): Promise<AudioPreparationFailure[]> {
+    const { signal, onProgress } = options;
+    const topics = flattenChapters(plan.doc.chapters);
+    const summaries: Record<number, string> = { ...plan.summaries };
+    const failures: AudioPreparationFailure[] = [];
+
+    const recordFailure = (label: string, err: unknown) => {
+        if (signal.aborted) throw err;
+        // Um tópico com vários trechos com falha aparece uma única vez na lista.
+        if (failures.some(failure => failure.label === label)) return;
+        failures.push({ label, message: err instanceof Error ? err.message : String(err) });
+    };
+
+    // Antes de gerar qualquer coisa, confere se ao menos o conteúdo dos tópicos cabe no cache.
+    assertFitsInAudioCache(topics.map(topic => topic.content));
+
+    // 1. Resumos que ainda não foram gerados.
+    const missingSummaries = topics.map((_, index) => index).filter(index => !summaries[index]);
+    let completed = 0;
+    onProgress({ stage: 'summaries', completed, total: missingSummaries.length, failures: [...failures] });
+    await mapWithConcurrency(missingSummaries, PREPARATION_CONCURRENCY, async index => {
+        signal.throwIfAborted();
+        const { title, content } = topics[index];
+        try {
+            const summary = await getAIProvider().generateChapterSummary(title, content, signal);
+            summaries[index] = summary;
+            await saveChapterSummary(plan.id, index, summary);
+        } catch (err) {
+            recordFailure(`Resumo: ${title}`, err);
+        }
+        onProgress({ stage: 'summaries', completed: ++completed, total: missingSummaries.length, failures: [...failures] });
+    });
+
+    // 2. Áudio dos tópicos e dos resumos, dividido nos mesmos trechos usados pelo player.
+    const seen = new Set<string>();
+    const clips: ClipTask[] = [];
+    const addClips = (markdown: string, label: string, chapterIndex: number) => {
+        splitIntoSpeechChunks(prepareSpeechParagraphs(markdown, job.speech)).forEach(chunk => {
+            if (seen.has(chunk.text)) return;
+            seen.add(chunk.text);
+            clips.push({ text: chunk.text, label, chapterIndex });
+        });
+    };
+    topics.forEach((topic, index) => {
+        addClips(topic.content, topic.title, index);
+        if (summaries[index]) addClips(summaries[index], `Resumo: ${topic.title}`, index);
+    });
+
+    assertFitsInAudioCache(clips.map(clip => clip.text));
+
+    completed = 0;
+    onProgress({ stage: 'audio', completed, total: clips.length, failures: [...failures] });
+    await mapWithConcurrency(clips, PREPARATION_CONCURRENCY, async clip => {
+        signal.throwIfAborted();
+        try {
+            await ensureSpeechClip(clip.text, job.voice, signal, { planId: plan.id, chapterIndex: clip.chapterIndex });
+        } catch (err) {
+            recordFailure(clip.label, err);
+        }
+        onProgress({ stage: 'audio', completed: ++completed, total: clips.length, failures: [...failures] });
+    });
+
+    return failures;
+}
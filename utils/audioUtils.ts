@@ -9,6 +9,15 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
@@ -27,3 +36,26 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+// Arquivo WAV (PCM 16 bits, mono) só com silêncio.
+export function createSilentWav(seconds: number, sampleRate: number): Blob {
+  const dataSize = Math.round(seconds * sampleRate) * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
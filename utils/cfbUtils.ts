@@ -0,0 +1,109 @@
+// utils/cfbUtils.ts
+// Leitor mínimo do formato Compound File Binary (OLE2), usado pelos arquivos .doc do Word 97-2003.
+
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const DIRECTORY_ENTRY_SIZE = 128;
+const STREAM_OBJECT = 2;
+const ROOT_STORAGE_OBJECT = 5;
+
+export function isCompoundFile(data: ArrayBuffer): boolean {
+    const bytes = new Uint8Array(data, 0, Math.min(8, data.byteLength));
+    return CFB_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+// Lê todos os streams de um Compound File, indexados pelo nome.
+// A hierarquia de storages é ignorada: os streams do Word ficam todos na raiz.
+export function readCompoundFile(data: ArrayBuffer): Map<string, Uint8Array> {
+    if (!isCompoundFile(data)) {
+        throw new Error("O arquivo não está no formato OLE esperado para documentos .doc.");
+    }
+
+    const bytes = new Uint8Array(data);
+    const view = new DataView(data);
+    const sectorSize = 1 << view.getUint16(0x1e, true);
+    const miniSectorSize = 1 << view.getUint16(0x20, true);
+    const fatSectorCount = view.getUint32(0x2c, true);
+    const firstDirectorySector = view.getUint32(0x30, true);
+    const miniStreamCutoff = view.getUint32(0x38, true);
+    const firstMiniFatSector = view.getUint32(0x3c, true);
+    let difatSector = view.getUint32(0x44, true);
+
+    const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+    const entriesPerSector = sectorSize / 4;
+
+    // Os primeiros 109 setores da FAT estão listados no cabeçalho; os demais, em setores DIFAT encadeados.
+    const fatSectors: number[] = [];
+    for (let i = 0; i < 109 && fatSectors.length < fatSectorCount; i++) {
+        fatSectors.push(view.getUint32(0x4c + i * 4, true));
+    }
+    while (difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR && fatSectors.length < fatSectorCount) {
+        const base = sectorOffset(difatSector);
+        for (let i = 0; i < entriesPerSector - 1 && fatSectors.length < fatSectorCount; i++) {
+            fatSectors.push(view.getUint32(base + i * 4, true));
+        }
+        difatSector = view.getUint32(base + (entriesPerSector - 1) * 4, true);
+    }
+
+    const fat: number[] = [];
+    fatSectors.forEach(sector => {
+        const base = sectorOffset(sector);
+        for (let i = 0; i < entriesPerSector; i++) {
+            fat.push(view.getUint32(base + i * 4, true));
+        }
+    });
+
+    const readChain = (source: Uint8Array, table: number[], start: number, unit: number, offsetOf: (s: number) => number): Uint8Array => {
+        const chunks: Uint8Array[] = [];
+        const visited = new Set<number>();
+        for (let sector = start; sector !== END_OF_CHAIN && sector !== FREE_SECTOR && sector < table.length; sector = table[sector]) {
+            if (visited.has(sector)) {
+                throw new Error("Cadeia de setores circular no arquivo .doc.");
+            }
+            visited.add(sector);
+            chunks.push(source.subarray(offsetOf(sector), offsetOf(sector) + unit));
+        }
+        const result = new Uint8Array(chunks.length * unit);
+        chunks.forEach((chunk, i) => result.set(chunk, i * unit));
+        return result;
+    };
+
+    const readSectorChain = (start: number) => readChain(bytes, fat, start, sectorSize, sectorOffset);
+
+    const directory = readSectorChain(firstDirectorySector);
+    const directoryView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+
+    const miniFatBytes = firstMiniFatSector === END_OF_CHAIN ? new Uint8Array(0) : readSectorChain(firstMiniFatSector);
+    const miniFatView = new DataView(miniFatBytes.buffer, miniFatBytes.byteOffset, miniFatBytes.byteLength);
+    const miniFat: number[] = [];
+    for (let i = 0; i + 4 <= miniFatBytes.length; i += 4) {
+        miniFat.push(miniFatView.getUint32(i, true));
+    }
+
+    let miniStream = new Uint8Array(0);
+    const streams = new Map<string, Uint8Array>();
+    const nameDecoder = new TextDecoder('utf-16le');
+
+    for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directory.length; offset += DIRECTORY_ENTRY_SIZE) {
+        const nameLength = directoryView.getUint16(offset + 0x40, true);
+        const type = directory[offset + 0x42];
+        if (nameLength < 2) continue;
+
+        const name = nameDecoder.decode(directory.subarray(offset, offset + nameLength - 2));
+        const startSector = directoryView.getUint32(offset + 0x74, true);
+        const size = directoryView.getUint32(offset + 0x78, true);
+
+        if (type === ROOT_STORAGE_OBJECT) {
+            miniStream = readSectorChain(startSector);
+        } else if (type === STREAM_OBJECT) {
+            // Streams pequenos ficam no mini stream, que só é conhecido após ler a entrada raiz (sempre a primeira).
+            const content = size < miniStreamCutoff
+                ? readChain(miniStream, miniFat, startSector, miniSectorSize, s => s * miniSectorSize)
+                : readSectorChain(startSector);
+            streams.set(name, content.subarray(0, size));
+        }
+    }
+
+    return streams;
+}
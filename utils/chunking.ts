@@ -0,0 +1,74 @@
+// utils/chunking.ts
+// Divide os materiais de estudo em blocos que cabem no orçamento de tokens de uma única chamada ao modelo.
+
+import { SourceFile } from './ingestion';
+
+// Estimativa local (sem chamada de rede): em média, um token corresponde a ~4 caracteres em textos técnicos.
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateSourceTokens(files: SourceFile[]): number {
+    return files.reduce((total, file) => total + estimateTokens(file.content), 0);
+}
+
+// Quebra um texto em pedaços de até `maxTokens`, preferindo limites de parágrafo (os marcadores de página dos PDFs iniciam parágrafos).
+function splitText(text: string, maxTokens: number): string[] {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const paragraphs = text.split(/\n{2,}/);
+    const pieces: string[] = [];
+    let current = '';
+
+    const pushCurrent = () => {
+        if (current.trim()) pieces.push(current.trim());
+        current = '';
+    };
+
+    paragraphs.forEach(paragraph => {
+        // Parágrafos maiores que o orçamento inteiro são cortados em tamanho fixo.
+        if (paragraph.length > maxChars) {
+            pushCurrent();
+            for (let start = 0; start < paragraph.length; start += maxChars) {
+                pieces.push(paragraph.slice(start, start + maxChars));
+            }
+            return;
+        }
+        if (current.length + paragraph.length + 2 > maxChars) {
+            pushCurrent();
+        }
+        current += (current ? '\n\n' : '') + paragraph;
+    });
+    pushCurrent();
+
+    return pieces;
+}
+
+// Agrupa os arquivos em blocos que respeitam o orçamento de tokens. Arquivos grandes são divididos
+// em partes nomeadas ("arquivo.pdf (parte 2/5)") para que o modelo saiba de onde vem cada trecho.
+export function chunkSources(files: SourceFile[], maxTokens: number): SourceFile[][] {
+    const parts: SourceFile[] = files.flatMap(file => {
+        if (estimateTokens(file.content) <= maxTokens) return [file];
+        const pieces = splitText(file.content, maxTokens);
+        return pieces.map((content, i) => ({ name: `${file.name} (parte ${i + 1}/${pieces.length})`, content }));
+    });
+
+    const chunks: SourceFile[][] = [];
+    let current: SourceFile[] = [];
+    let currentTokens = 0;
+
+    parts.forEach(part => {
+        const tokens = estimateTokens(part.content);
+        if (current.length > 0 && currentTokens + tokens > maxTokens) {
+            chunks.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(part);
+        currentTokens += tokens;
+    });
+    if (current.length > 0) chunks.push(current);
+
+    return chunks;
+}
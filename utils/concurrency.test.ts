@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+    it('preserva a ordem dos resultados', async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 2, async delay => {
+            await new Promise(resolve => setTimeout(resolve, delay));
+            return delay * 2;
+        });
+        expect(results).toEqual([60, 20, 40]);
+    });
+
+    it('não inicia novos itens depois da primeira falha', async () => {
+        const started: number[] = [];
+        const promise = mapWithConcurrency([0, 1, 2, 3, 4], 2, async item => {
+            started.push(item);
+            await new Promise(resolve => setTimeout(resolve, item === 0 ? 5 : 20));
+            if (item === 0) throw new Error('falhou');
+            return item;
+        });
+
+        await expect(promise).rejects.toThrow('falhou');
+        // Espera o item 1, que estava em andamento, terminar.
+        await new Promise(resolve => setTimeout(resolve, 40));
+        expect(started).toEqual([0, 1]);
+    });
+});
@@ -0,0 +1,29 @@
+// utils/concurrency.ts
+
+// Executa `worker` para cada item com no máximo `limit` execuções simultâneas,
+// preservando a ordem dos resultados. Na primeira falha, nenhum item novo é iniciado; os que já estão
+// em andamento terminam normalmente, a menos que o chamador os cancele.
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    let failed = false;
+
+    const runNext = async (): Promise<void> => {
+        while (!failed && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = await worker(items[index], index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+    return results;
+}
@@ -1,8 +1,19 @@
 // utils/db.ts
+import { StoredStudyPlan, AudioClipMetadata, QuizAttempt, Flashcard } from '../types';
 
+// O nome do banco é mantido por compatibilidade: ele já guardava o cache de áudio antes da biblioteca de planos.
 const DB_NAME = 'cortex-audio-cache';
 const STORE_NAME = 'audioClips';
-const DB_VERSION = 1;
+const CLIP_META_STORE_NAME = 'audioClipMeta';
+const PLANS_STORE_NAME = 'studyPlans';
+const QUIZ_ATTEMPTS_STORE_NAME = 'quizAttempts';
+const FLASHCARDS_STORE_NAME = 'flashcards';
+// Versão 2: adiciona o object store da biblioteca de planos de estudo.
+// Versão 3: chaves do cache de áudio passam a ser hashes e ganham metadados (plano, voz, tamanho, último uso).
+// Versão 4: adiciona o histórico de tentativas dos questionários.
+// Versão 5: adiciona os cartões de revisão espaçada.
+// Versão 6: indexa os metadados do cache de áudio pelo plano, para excluir os clipes junto com o plano.
+const DB_VERSION = 6;
 
 let db: IDBDatabase | null = null;
 
@@ -28,49 +39,211 @@ function initDB(): Promise<IDBDatabase> {
 
     // Este evento só é acionado em novas versões do banco de dados.
     request.onupgradeneeded = (event) => {
-      const database = (event.target as IDBOpenDBRequest).result;
+      const openRequest = event.target as IDBOpenDBRequest;
+      const database = openRequest.result;
       if (!database.objectStoreNames.contains(STORE_NAME)) {
         database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      } else if (event.oldVersion < 3) {
+        // Os clipes antigos usam o texto inteiro como chave e não têm metadados; eles são descartados
+        // e voltam a ser gerados sob demanda.
+        openRequest.transaction?.objectStore(STORE_NAME).clear();
+      }
+      if (!database.objectStoreNames.contains(CLIP_META_STORE_NAME)) {
+        const metaStore = database.createObjectStore(CLIP_META_STORE_NAME, { keyPath: 'id' });
+        metaStore.createIndex('lastUsed', 'lastUsed');
+      }
+      const clipMetaStore = openRequest.transaction?.objectStore(CLIP_META_STORE_NAME);
+      if (clipMetaStore && !clipMetaStore.indexNames.contains('planId')) {
+        clipMetaStore.createIndex('planId', 'planId');
+      }
+      if (!database.objectStoreNames.contains(PLANS_STORE_NAME)) {
+        const plansStore = database.createObjectStore(PLANS_STORE_NAME, { keyPath: 'id' });
+        plansStore.createIndex('createdAt', 'createdAt');
+      }
+      if (!database.objectStoreNames.contains(QUIZ_ATTEMPTS_STORE_NAME)) {
+        const attemptsStore = database.createObjectStore(QUIZ_ATTEMPTS_STORE_NAME, { keyPath: 'id' });
+        attemptsStore.createIndex('planId', 'planId');
+      }
+      if (!database.objectStoreNames.contains(FLASHCARDS_STORE_NAME)) {
+        const flashcardsStore = database.createObjectStore(FLASHCARDS_STORE_NAME, { keyPath: 'id' });
+        flashcardsStore.createIndex('planId', 'planId');
       }
     };
   });
 }
 
-// Busca um clipe de áudio no cache pelo seu ID (chave).
-export async function getAudio(id: string): Promise<string | undefined> {
+// Executa uma operação em um object store e resolve com o resultado da requisição.
+async function runInStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  errorMessage: string
+): Promise<T> {
   const database = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(id);
+    const transaction = database.transaction([storeName], mode);
+    const request = operation(transaction.objectStore(storeName));
 
     request.onerror = (event) => {
-      console.error('Erro ao buscar áudio do cache:', event);
-      reject('Falha ao buscar áudio.');
+      console.error(`${errorMessage}:`, event);
+      reject(errorMessage);
     };
 
-    request.onsuccess = (event) => {
-      const result = (event.target as IDBRequest).result;
-      resolve(result ? result.audioData : undefined);
+    request.onsuccess = () => {
+      resolve(request.result);
     };
   });
 }
 
-// Armazena um clipe de áudio (string base64) no cache.
-export async function storeAudio(id: string, audioData: string): Promise<void> {
+// Salva (ou atualiza) um plano de estudo na biblioteca.
+export async function savePlan(plan: StoredStudyPlan): Promise<void> {
+  await runInStore(PLANS_STORE_NAME, 'readwrite', store => store.put(plan), 'Falha ao salvar o plano de estudo');
+}
+
+export async function getPlan(id: string): Promise<StoredStudyPlan | undefined> {
+  return runInStore<StoredStudyPlan | undefined>(PLANS_STORE_NAME, 'readonly', store => store.get(id), 'Falha ao buscar o plano de estudo');
+}
+
+// Lista todos os planos salvos, do mais recente para o mais antigo.
+export async function listPlans(): Promise<StoredStudyPlan[]> {
+  const plans = await runInStore<StoredStudyPlan[]>(PLANS_STORE_NAME, 'readonly', store => store.index('createdAt').getAll(), 'Falha ao listar os planos de estudo');
+  return plans.reverse();
+}
+
+// Executa uma transação em vários object stores e resolve quando ela for concluída.
+async function runTransaction(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => void,
+  errorMessage: string
+): Promise<void> {
   const database = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put({ id, audioData });
+    const transaction = database.transaction(storeNames, mode);
+    work(transaction);
 
-    request.onerror = (event) => {
-      console.error('Erro ao armazenar áudio no cache:', event);
-      reject('Falha ao armazenar áudio.');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = (event) => {
+      console.error(`${errorMessage}:`, event);
+      reject(errorMessage);
+    };
+  });
+}
+
+// Busca um clipe de áudio no cache pelo seu ID (chave) e registra o uso, para a política de descarte (LRU).
+export async function getAudio(id: string): Promise<string | undefined> {
+  let audioData: string | undefined;
+  await runTransaction([STORE_NAME, CLIP_META_STORE_NAME], 'readwrite', transaction => {
+    const clipRequest = transaction.objectStore(STORE_NAME).get(id);
+    clipRequest.onsuccess = () => {
+      audioData = clipRequest.result?.audioData;
+    };
+    const metaStore = transaction.objectStore(CLIP_META_STORE_NAME);
+    const metaRequest = metaStore.get(id);
+    metaRequest.onsuccess = () => {
+      const metadata: AudioClipMetadata | undefined = metaRequest.result;
+      if (metadata) metaStore.put({ ...metadata, lastUsed: Date.now() });
+    };
+  }, 'Falha ao buscar áudio do cache');
+  return audioData;
+}
+
+// Armazena um clipe de áudio (string base64) no cache, junto com seus metadados.
+export async function storeAudio(audioData: string, metadata: AudioClipMetadata): Promise<void> {
+  await runTransaction([STORE_NAME, CLIP_META_STORE_NAME], 'readwrite', transaction => {
+    transaction.objectStore(STORE_NAME).put({ id: metadata.id, audioData });
+    transaction.objectStore(CLIP_META_STORE_NAME).put(metadata);
+  }, 'Falha ao armazenar áudio');
+}
+
+// Indica se há um clipe de áudio no cache, sem carregar os dados, e registra o uso (como `getAudio`),
+// para que um clipe confirmado agora não seja o próximo a ser descartado.
+export async function touchAudio(id: string): Promise<boolean> {
+  let found = false;
+  await runTransaction([CLIP_META_STORE_NAME], 'readwrite', transaction => {
+    const metaStore = transaction.objectStore(CLIP_META_STORE_NAME);
+    const metaRequest = metaStore.get(id);
+    metaRequest.onsuccess = () => {
+      const metadata: AudioClipMetadata | undefined = metaRequest.result;
+      if (!metadata) return;
+      found = true;
+      metaStore.put({ ...metadata, lastUsed: Date.now() });
     };
+  }, 'Falha ao consultar o cache de áudio');
+  return found;
+}
 
+// Metadados de todos os clipes, do uso mais antigo para o mais recente.
+export async function listAudioClipMetadata(): Promise<AudioClipMetadata[]> {
+  return runInStore<AudioClipMetadata[]>(CLIP_META_STORE_NAME, 'readonly', store => store.index('lastUsed').getAll(), 'Falha ao listar o cache de áudio');
+}
+
+export async function deleteAudioClips(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await runTransaction([STORE_NAME, CLIP_META_STORE_NAME], 'readwrite', transaction => {
+    const clipStore = transaction.objectStore(STORE_NAME);
+    const metaStore = transaction.objectStore(CLIP_META_STORE_NAME);
+    ids.forEach(id => {
+      clipStore.delete(id);
+      metaStore.delete(id);
+    });
+  }, 'Falha ao remover áudio do cache');
+}
+
+// Atualiza um plano salvo lendo e escrevendo na mesma transação, para que alterações feitas
+// em paralelo (ex: resumos gerados durante a preparação do áudio offline) não se sobrescrevam.
+export async function updatePlan(planId: string, update: (plan: StoredStudyPlan) => StoredStudyPlan): Promise<void> {
+  await runTransaction([PLANS_STORE_NAME], 'readwrite', transaction => {
+    const store = transaction.objectStore(PLANS_STORE_NAME);
+    const request = store.get(planId);
     request.onsuccess = () => {
-      resolve();
+      const plan: StoredStudyPlan | undefined = request.result;
+      if (plan) store.put(update(plan));
     };
-  });
+  }, 'Falha ao atualizar o plano de estudo');
+}
+
+// Guarda o resumo de um tópico no plano salvo.
+export async function saveChapterSummary(planId: string, chapterIndex: number, summary: string): Promise<void> {
+  await updatePlan(planId, plan => ({ ...plan, summaries: { ...plan.summaries, [chapterIndex]: summary } }));
+}
+
+// Exclui um plano junto com o histórico de questionários, os cartões e os clipes de áudio gerados para ele.
+// Um clipe é associado só ao plano que o gerou; se outro plano usar o mesmo trecho, ele é gerado de novo.
+export async function deletePlan(id: string): Promise<void> {
+  await runTransaction([PLANS_STORE_NAME, QUIZ_ATTEMPTS_STORE_NAME, FLASHCARDS_STORE_NAME, STORE_NAME, CLIP_META_STORE_NAME], 'readwrite', transaction => {
+    transaction.objectStore(PLANS_STORE_NAME).delete(id);
+    [QUIZ_ATTEMPTS_STORE_NAME, FLASHCARDS_STORE_NAME, CLIP_META_STORE_NAME].forEach(storeName => {
+      const store = transaction.objectStore(storeName);
+      const request = store.index('planId').getAllKeys(id);
+      request.onsuccess = () => request.result.forEach(key => {
+        store.delete(key);
+        // Os dados do clipe ficam em outro store, com a mesma chave dos metadados.
+        if (storeName === CLIP_META_STORE_NAME) transaction.objectStore(STORE_NAME).delete(key);
+      });
+    });
+  }, 'Falha ao excluir o plano de estudo');
+}
+
+export async function saveQuizAttempt(attempt: QuizAttempt): Promise<void> {
+  await runInStore(QUIZ_ATTEMPTS_STORE_NAME, 'readwrite', store => store.put(attempt), 'Falha ao salvar a tentativa do questionário');
+}
+
+// Tentativas de questionário de um plano, da mais recente para a mais antiga.
+export async function listQuizAttempts(planId: string): Promise<QuizAttempt[]> {
+  const attempts = await runInStore<QuizAttempt[]>(QUIZ_ATTEMPTS_STORE_NAME, 'readonly', store => store.index('planId').getAll(planId), 'Falha ao listar as tentativas de questionário');
+  return attempts.sort((a, b) => b.completedAt - a.completedAt);
+}
+
+// Salva (ou atualiza) vários cartões de uma vez.
+export async function saveFlashcards(cards: Flashcard[]): Promise<void> {
+  if (cards.length === 0) return;
+  await runTransaction([FLASHCARDS_STORE_NAME], 'readwrite', transaction => {
+    const store = transaction.objectStore(FLASHCARDS_STORE_NAME);
+    cards.forEach(card => store.put(card));
+  }, 'Falha ao salvar os cartões');
+}
+
+export async function listFlashcards(planId: string): Promise<Flashcard[]> {
+  return runInStore<Flashcard[]>(FLASHCARDS_STORE_NAME, 'readonly', store => store.index('planId').getAll(planId), 'Falha ao listar os cartões');
 }
@@ -1,7 +1,7 @@
-import { Chapter, Documentation } from '../types';
+import { Chapter, Documentation, Flashcard } from '../types';
 
-export function downloadAsFile(content: string, filename: string, mimeType: string) {
-    const blob = new Blob([content], { type: mimeType });
+export function downloadAsFile(content: string | Blob, filename: string, mimeType: string) {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -181,3 +181,44 @@ export function generateAndPrintChapter(chapter: Chapter, docTitle: string) {
         }, 500);
     }
 }
+
+// Anki usa espaços para separar as tags; hierarquias usam "::".
+const toAnkiTag = (title: string) => title.trim().replace(/\s+/g, '_').replace(/"/g, '');
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Os campos são exportados como HTML para preservar as quebras de linha sem conflitar com o separador.
+// As aspas também viram entidades: o Anki lê o arquivo como CSV, e um campo iniciado por `"` abriria
+// um trecho entre aspas que engoliria o separador e a coluna de tags.
+const toAnkiField = (text: string) => escapeHtml(text).replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+// Arquivo de texto com os cabeçalhos de importação do Anki (2.1.55+): baralho com o título do plano,
+// frente, verso e os títulos dos tópicos como tags. Importe em Arquivo > Importar.
+export function generateAndDownloadAnkiDeck(cards: Flashcard[], deckName: string) {
+    const header = [
+        '#separator:tab',
+        '#html:true',
+        // Fixa o tipo de nota, para não depender do último tipo usado na importação.
+        '#notetype:Basic',
+        `#deck:${deckName.replace(/[\t\r\n]+/g, ' ')}`,
+        '#tags column:3',
+    ];
+    const rows = cards.map(card => [toAnkiField(card.question), toAnkiField(card.answer), toAnkiTag(card.chapterTitle)].join('\t'));
+    const filename = `${deckName.replace(/\s+/g, '_').toLowerCase()}_anki.txt`;
+    downloadAsFile([...header, ...rows].join('\n'), filename, 'text/plain;charset=utf-8');
+}
+
+const toCsvField = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+// CSV genérico (frente, verso, baralho, tópico) para outras ferramentas de repetição espaçada ou planilhas.
+export function generateAndDownloadFlashcardsCsv(cards: Flashcard[], deckName: string) {
+    const rows = [
+        ['Frente', 'Verso', 'Baralho', 'Tópico'],
+        ...cards.map(card => [card.question, card.answer, deckName, card.chapterTitle]),
+    ];
+    const csvContent = rows.map(row => row.map(toCsvField).join(',')).join('\r\n');
+    const filename = `${deckName.replace(/\s+/g, '_').toLowerCase()}_cartoes.csv`;
+    // BOM para que o Excel reconheça a codificação UTF-8.
+    downloadAsFile('\uFEFF' + csvContent, filename, 'text/csv;charset=utf-8');
+}
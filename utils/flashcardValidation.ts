@@ -0,0 +1,28 @@
+// utils/flashcardValidation.ts
+// Validação em tempo de execução dos cartões de revisão retornados pela IA.
+
+import { Flashcard } from '../types';
+import { ValidationIssue } from './planValidation';
+
+export type FlashcardContent = Pick<Flashcard, 'question' | 'answer'>;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Valida a lista de cartões. Retorna a lista de problemas encontrados.
+export function validateFlashcards(data: unknown): ValidationIssue[] {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return [{ path: '(raiz)', message: 'a resposta deveria ser um objeto JSON' }];
+    }
+    const { cards } = data as Record<string, unknown>;
+    if (!Array.isArray(cards) || cards.length === 0) {
+        return [{ path: 'cards', message: 'lista de cartões ausente ou vazia' }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    cards.forEach((card, i) => {
+        const { question, answer } = (typeof card === 'object' && card !== null ? card : {}) as Record<string, unknown>;
+        if (!isNonEmptyString(question)) issues.push({ path: `cards[${i}].question`, message: 'pergunta ausente ou vazia' });
+        if (!isNonEmptyString(answer)) issues.push({ path: `cards[${i}].answer`, message: 'resposta ausente ou vazia' });
+    });
+    return issues;
+}
@@ -0,0 +1,64 @@
+// utils/flashcards.ts
+// Gera os cartões de revisão dos tópicos de um plano e os guarda no IndexedDB, já agendados para hoje.
+
+import { getAIProvider } from '../services/aiProvider';
+import { Chapter, Documentation, Flashcard } from '../types';
+import { mapWithConcurrency } from './concurrency';
+import { saveFlashcards } from './db';
+import { initialSchedule } from './spacedRepetition';
+
+// Requisições simultâneas ao provedor durante a geração.
+const GENERATION_CONCURRENCY = 2;
+
+export interface FlashcardGenerationFailure {
+    chapterTitle: string;
+    message: string;
+}
+
+interface GenerationOptions {
+    signal: AbortSignal;
+    // Chamado a cada tópico concluído, com os cartões criados para ele.
+    onTopicDone: (cards: Flashcard[], completed: number, total: number) => void;
+}
+
+// Tópicos e subtópicos na mesma ordem (e com os mesmos índices) do sumário exibido no app.
+const flattenChapters = (chapters: Chapter[]): Chapter[] =>
+    chapters.flatMap(chapter => [chapter, ...flattenChapters(chapter.subChapters ?? [])]);
+
+// Gera cartões apenas para os tópicos com conteúdo que ainda não têm nenhum. Retorna as falhas;
+// o cancelamento (via `signal`) é propagado como erro.
+export async function generateMissingFlashcards(planId: string, doc: Documentation, existing: Flashcard[], options: GenerationOptions): Promise<FlashcardGenerationFailure[]> {
+    const { signal, onTopicDone } = options;
+    const covered = new Set(existing.map(card => card.chapterIndex));
+    const pending = flattenChapters(doc.chapters)
+        .map((chapter, chapterIndex) => ({ chapter, chapterIndex }))
+        .filter(({ chapter, chapterIndex }) => !covered.has(chapterIndex) && chapter.content.trim().length > 0);
+
+    const failures: FlashcardGenerationFailure[] = [];
+    let completed = 0;
+    await mapWithConcurrency(pending, GENERATION_CONCURRENCY, async ({ chapter, chapterIndex }) => {
+        signal.throwIfAborted();
+        let cards: Flashcard[] = [];
+        try {
+            const contents = await getAIProvider().generateChapterFlashcards(chapter.title, chapter.content, signal);
+            const now = Date.now();
+            cards = contents.map(content => ({
+                id: crypto.randomUUID(),
+                planId,
+                chapterIndex,
+                chapterTitle: chapter.title,
+                question: content.question,
+                answer: content.answer,
+                createdAt: now,
+                ...initialSchedule(now),
+            }));
+            await saveFlashcards(cards);
+        } catch (err) {
+            if (signal.aborted) throw err;
+            failures.push({ chapterTitle: chapter.title, message: err instanceof Error ? err.message : String(err) });
+            cards = [];
+        }
+        onTopicDone(cards, ++completed, pending.length);
+    });
+    return failures;
+}
@@ -0,0 +1,23 @@
+// @vitest-environment jsdom
+
+import { describe, expect, it } from 'vitest';
+import { convertHtmlToMarkdown } from './htmlUtils';
+
+const CANONICAL = '<link rel="canonical" href="https://exemplo.com/guia">';
+
+describe('convertHtmlToMarkdown', () => {
+    it('coloca a fonte logo abaixo do título da página', () => {
+        const markdown = convertHtmlToMarkdown(`<html><head><title>Guia de VLANs</title>${CANONICAL}</head><body><main><p>Primeiro parágrafo.</p></main></body></html>`);
+        expect(markdown).toBe('# Guia de VLANs\n\nFonte: https://exemplo.com/guia\n\nPrimeiro parágrafo.');
+    });
+
+    it('abre o documento com a fonte quando a página não tem título', () => {
+        const markdown = convertHtmlToMarkdown(`<html><head>${CANONICAL}</head><body><main><p>Primeiro parágrafo.</p><p>Segundo parágrafo.</p></main></body></html>`);
+        expect(markdown).toBe('Fonte: https://exemplo.com/guia\n\nPrimeiro parágrafo.\n\nSegundo parágrafo.');
+    });
+
+    it('mantém os espaços das bordas fora da marcação inline', () => {
+        const markdown = convertHtmlToMarkdown('<html><body><main><p>Use o comando<strong> show vlan </strong>no switch.</p></main></body></html>');
+        expect(markdown).toBe('Use o comando **show vlan** no switch.');
+    });
+});
@@ -0,0 +1,238 @@
+// utils/htmlUtils.ts
+// Extrai o conteúdo principal de páginas HTML salvas e o converte em Markdown enxuto,
+// descartando scripts, menus, rodapés e banners que só consumiriam tokens no prompt.
+
+import { renderTable, fenceCode, wrapInline } from './markdownUtils';
+
+// Elementos que nunca contêm conteúdo de estudo.
+const REMOVED_TAGS = 'script, style, noscript, template, iframe, object, embed, svg, canvas, form, button, input, select, textarea, nav, footer, aside, dialog';
+const REMOVED_ROLES = '[role="navigation"], [role="banner"], [role="contentinfo"], [role="search"], [role="complementary"], [role="dialog"], [aria-hidden="true"], [hidden]';
+// Padrões de id/classe típicos de boilerplate (avisos de cookies, compartilhamento, menus laterais...).
+const BOILERPLATE_PATTERN = /(^|[\s_-])(cookie|consent|gdpr|banner|newsletter|subscribe|advert|ads?|promo|share|social|breadcrumbs?|sidebar|sidenav|navbar|menu|toc|popup|modal|feedback|skip-link|edit-page|pagination)([\s_-]|$)/i;
+// Candidatos ao conteúdo principal, em ordem de preferência.
+const MAIN_CONTENT_SELECTORS = ['main', '[role="main"]', 'article', '#content', '#main-content', '.main-content', '.content', '.markdown-body', '.documentation'];
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+    'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+interface ConversionContext {
+    baseUrl: string | null;
+}
+
+function resolveUrl(href: string, context: ConversionContext): string {
+    if (!context.baseUrl || /^(#|mailto:|tel:|data:)/i.test(href)) return href;
+    try {
+        return new URL(href, context.baseUrl).href;
+    } catch {
+        return href;
+    }
+}
+
+// Descobre a URL original da página para resolver links relativos: <base>, link canônico ou og:url.
+function findBaseUrl(document: Document): string | null {
+    const candidates = [
+        document.querySelector('base[href]')?.getAttribute('href'),
+        document.querySelector('link[rel="canonical"]')?.getAttribute('href'),
+        document.querySelector('meta[property="og:url"]')?.getAttribute('content'),
+    ];
+    for (const candidate of candidates) {
+        if (candidate && /^https?:\/\//i.test(candidate)) return candidate;
+    }
+    return null;
+}
+
+function removeBoilerplate(root: Element) {
+    root.querySelectorAll(`${REMOVED_TAGS}, ${REMOVED_ROLES}`).forEach(el => el.remove());
+    // Cabeçalhos de artigo costumam conter o título da página; só os cabeçalhos sem títulos são descartados.
+    root.querySelectorAll('header').forEach(header => {
+        if (!header.querySelector('h1, h2, h3')) header.remove();
+    });
+    root.querySelectorAll<HTMLElement>('[class], [id]').forEach(el => {
+        const signature = `${el.id} ${typeof el.className === 'string' ? el.className : ''}`;
+        // Não remove blocos grandes que apenas compartilham o nome de uma classe (ex: "content-with-sidebar").
+        if (BOILERPLATE_PATTERN.test(signature) && (el.textContent?.length ?? 0) < 2000) {
+            el.remove();
+        }
+    });
+}
+
+function findMainContent(document: Document): Element {
+    for (const selector of MAIN_CONTENT_SELECTORS) {
+        const candidate = document.querySelector(selector);
+        if (candidate && (candidate.textContent?.trim().length ?? 0) > 200) {
+            return candidate;
+        }
+    }
+    return document.body;
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ');
+
+function convertInline(node: Node, context: ConversionContext): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return collapseWhitespace(node.textContent ?? '');
+    }
+    if (!(node instanceof Element)) return '';
+
+    const children = () => Array.from(node.childNodes).map(child => convertInline(child, context)).join('');
+    switch (node.tagName.toLowerCase()) {
+        case 'br':
+            return '  \n';
+        case 'strong':
+        case 'b':
+            return wrapInline(children(), '**');
+        case 'em':
+        case 'i':
+            return wrapInline(children(), '*');
+        case 'code':
+        case 'kbd':
+        case 'samp': {
+            const code = node.textContent ?? '';
+            return code.includes('`') ? `\`\` ${code} \`\`` : `\`${code}\``;
+        }
+        case 'a': {
+            const label = children().trim();
+            const href = node.getAttribute('href');
+            if (!label) return '';
+            if (!href || /^javascript:/i.test(href)) return label;
+            return `[${label}](${resolveUrl(href, context)})`;
+        }
+        case 'img': {
+            const src = node.getAttribute('src');
+            const alt = node.getAttribute('alt')?.trim();
+            // Imagens sem texto alternativo não agregam nada ao texto de estudo.
+            return src && alt ? `![${alt}](${resolveUrl(src, context)})` : '';
+        }
+        default:
+            return children();
+    }
+}
+
+function detectCodeLanguage(pre: Element): string {
+    const classes = `${pre.className} ${pre.querySelector('code')?.className ?? ''}`;
+    return classes.match(/(?:language|lang)-([\w+#-]+)/)?.[1] ?? '';
+}
+
+function convertList(list: Element, context: ConversionContext, depth: number): string {
+    const ordered = list.tagName.toLowerCase() === 'ol';
+    const indent = '  '.repeat(depth);
+    return Array.from(list.children)
+        .filter(item => item.tagName.toLowerCase() === 'li')
+        .map(item => {
+            const nested: string[] = [];
+            const inlineNodes: Node[] = [];
+            item.childNodes.forEach(child => {
+                if (child instanceof Element && ['ul', 'ol'].includes(child.tagName.toLowerCase())) {
+                    nested.push(convertList(child, context, depth + 1));
+                } else {
+                    inlineNodes.push(child);
+                }
+            });
+            const text = inlineNodes.map(child => child instanceof Element && BLOCK_TAGS.has(child.tagName.toLowerCase())
+                ? convertBlocks(child, context).join(' ')
+                : convertInline(child, context)).join('').trim();
+            return [`${indent}${ordered ? '1.' : '-'} ${text}`, ...nested].join('\n');
+        })
+        .join('\n');
+}
+
+function convertTable(table: Element, context: ConversionContext): string {
+    const rows = Array.from(table.querySelectorAll('tr'))
+        .filter(row => row.closest('table') === table)
+        .map(row => Array.from(row.children)
+            .filter(cell => ['td', 'th'].includes(cell.tagName.toLowerCase()))
+            .flatMap(cell => {
+                const text = convertInline(cell, context).trim();
+                const span = Number(cell.getAttribute('colspan') ?? 1);
+                return [text, ...Array(Math.max(0, span - 1)).fill('')];
+            }));
+    return renderTable(rows.filter(row => row.length > 0));
+}
+
+// Converte um elemento em blocos Markdown. Conteúdo inline solto entre blocos vira um parágrafo próprio.
+function convertBlocks(element: Element, context: ConversionContext): string[] {
+    const blocks: string[] = [];
+    let inlineBuffer = '';
+
+    const flushInline = () => {
+        const text = inlineBuffer.trim();
+        if (text) blocks.push(text);
+        inlineBuffer = '';
+    };
+
+    element.childNodes.forEach(child => {
+        if (!(child instanceof Element) || !BLOCK_TAGS.has(child.tagName.toLowerCase())) {
+            inlineBuffer += convertInline(child, context);
+            return;
+        }
+        flushInline();
+
+        const tag = child.tagName.toLowerCase();
+        switch (tag) {
+            case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+                const text = convertInline(child, context).replace(/\s+/g, ' ').trim();
+                if (text) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+                break;
+            }
+            case 'p':
+            case 'summary':
+            case 'figcaption':
+            case 'dd': {
+                const text = convertInline(child, context).trim();
+                if (text) blocks.push(text);
+                break;
+            }
+            case 'dt': {
+                const text = convertInline(child, context).trim();
+                if (text) blocks.push(`**${text}**`);
+                break;
+            }
+            case 'pre': {
+                const code = (child.textContent ?? '').replace(/^\n+|\s+$/g, '');
+                if (code) blocks.push(fenceCode(code, detectCodeLanguage(child)));
+                break;
+            }
+            case 'ul':
+            case 'ol':
+                blocks.push(convertList(child, context, 0));
+                break;
+            case 'table':
+                blocks.push(convertTable(child, context));
+                break;
+            case 'blockquote':
+                blocks.push(convertBlocks(child, context).join('\n\n').split('\n').map(line => `> ${line}`).join('\n'));
+                break;
+            case 'hr':
+                blocks.push('---');
+                break;
+            default:
+                blocks.push(...convertBlocks(child, context));
+        }
+    });
+    flushInline();
+
+    return blocks.filter(block => block.trim().length > 0);
+}
+
+// Converte uma página HTML completa em Markdown contendo apenas o conteúdo principal.
+export function convertHtmlToMarkdown(html: string): string {
+    const document = new DOMParser().parseFromString(html, 'text/html');
+    const context: ConversionContext = { baseUrl: findBaseUrl(document) };
+    const title = document.title.trim();
+
+    const main = findMainContent(document);
+    removeBoilerplate(main);
+
+    const blocks = convertBlocks(main, context);
+    if (title && !blocks.some(block => block.startsWith('# '))) {
+        blocks.unshift(`# ${collapseWhitespace(title)}`);
+    }
+    if (context.baseUrl) {
+        // A fonte fica logo abaixo do título; sem título no início, ela abre o documento.
+        blocks.splice(blocks[0]?.startsWith('# ') ? 1 : 0, 0, `Fonte: ${context.baseUrl}`);
+    }
+
+    return blocks.join('\n\n');
+}
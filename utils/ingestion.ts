@@ -0,0 +1,56 @@
+import { extractPdfText } from './pdfUtils';
+import { convertDocxToMarkdown, convertDocToMarkdown } from './wordUtils';
+import { isCompoundFile } from './cfbUtils';
+import { convertHtmlToMarkdown } from './htmlUtils';
+
+export interface SourceFile {
+    name: string;
+    content: string;
+}
+
+function readFile<T extends string | ArrayBuffer>(file: File, mode: 'text' | 'arrayBuffer'): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as T);
+        reader.onerror = (error) => reject(new Error(`Erro ao ler o arquivo ${file.name}: ${error}`));
+        if (mode === 'text') {
+            reader.readAsText(file);
+        } else {
+            reader.readAsArrayBuffer(file);
+        }
+    });
+}
+
+export const getFileExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+// Converte um arquivo enviado pelo usuário em texto utilizável no prompt,
+// escolhendo o extrator adequado de acordo com a extensão.
+export async function extractFileContent(file: File): Promise<SourceFile> {
+    const extension = getFileExtension(file.name);
+    try {
+        switch (extension) {
+            case 'pdf': {
+                const data = await readFile<ArrayBuffer>(file, 'arrayBuffer');
+                return { name: file.name, content: await extractPdfText(data) };
+            }
+            case 'docx':
+            case 'doc': {
+                const data = await readFile<ArrayBuffer>(file, 'arrayBuffer');
+                // Arquivos .doc às vezes são, na verdade, .docx renomeados; o formato é identificado pela assinatura.
+                const content = isCompoundFile(data) ? convertDocToMarkdown(data) : await convertDocxToMarkdown(data);
+                return { name: file.name, content };
+            }
+            case 'html':
+            case 'htm': {
+                const html = await readFile<string>(file, 'text');
+                return { name: file.name, content: convertHtmlToMarkdown(html) };
+            }
+            default:
+                return { name: file.name, content: await readFile<string>(file, 'text') };
+        }
+    } catch (error) {
+        console.error(`Erro ao extrair conteúdo de ${file.name}:`, error);
+        const detail = error instanceof Error ? error.message : String(error);
+        throw new Error(`Não foi possível extrair o conteúdo do arquivo ${file.name}. ${detail}`);
+    }
+}
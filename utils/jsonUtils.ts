@@ -0,0 +1,130 @@
+// utils/jsonUtils.ts
+// Funções para extrair e recuperar objetos JSON de respostas de modelos de linguagem.
+
+// Extrai o objeto JSON da resposta, que pode vir cercado por um bloco de código ou por texto extra.
+// Se o objeto não estiver fechado (resposta truncada), retorna tudo a partir da primeira chave.
+export function extractJson(rawText: string): string {
+    const markdownMatch = rawText.match(/```(?:json)?\s*(\{[\s\S]+\})\s*```/);
+    if (markdownMatch && markdownMatch[1]) {
+        return markdownMatch[1];
+    }
+
+    const startIndex = rawText.indexOf('{');
+    if (startIndex === -1) {
+        console.error("Resposta completa da IA (não-JSON):", rawText);
+        throw new Error("A resposta da IA não contém um objeto JSON válido.");
+    }
+    const endIndex = rawText.lastIndexOf('}');
+    const unfencedText = rawText.substring(startIndex).replace(/\s*```\s*$/, '');
+    try {
+        JSON.parse(rawText.substring(startIndex, endIndex + 1));
+        return rawText.substring(startIndex, endIndex + 1);
+    } catch {
+        return unfencedText;
+    }
+}
+
+// Fecha strings, objetos e arrays deixados abertos no fim do texto.
+function closeOpenStructures(text: string): string {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const char of text) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            stack.push('}');
+        } else if (char === '[') {
+            stack.push(']');
+        } else if (char === '}' || char === ']') {
+            stack.pop();
+        }
+    }
+
+    let closed = text;
+    if (inString) {
+        closed = (escaped ? closed.slice(0, -1) : closed) + '"';
+    }
+    closed = closed.replace(/[\s,]+$/, '');
+    if (closed.endsWith(':')) closed += ' null';
+    return closed + stack.reverse().join('');
+}
+
+// Tenta recuperar um JSON truncado: fecha as estruturas abertas e, se ainda for inválido,
+// descarta o último membro incompleto (cortando na vírgula anterior) e tenta novamente.
+// Retorna undefined se não for possível obter um JSON válido.
+export function repairTruncatedJson(text: string, maxAttempts = 50): unknown | undefined {
+    let candidate = text.trim();
+    for (let attempt = 0; attempt < maxAttempts && candidate.length > 0; attempt++) {
+        try {
+            return JSON.parse(closeOpenStructures(candidate));
+        } catch {
+            const lastComma = candidate.lastIndexOf(',');
+            if (lastComma <= 0) return undefined;
+            candidate = candidate.substring(0, lastComma);
+        }
+    }
+    return undefined;
+}
+
+// Lê, de um JSON possivelmente incompleto (ainda em streaming), os itens já concluídos do array
+// `key` do objeto raiz. O último item, se ainda estiver sendo escrito, é ignorado.
+export function parseCompletedArrayItems(text: string, key: string): unknown[] {
+    const items: unknown[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let stringStart = -1;
+    let lastKey: string | null = null;
+    let arrayDepth = -1;
+    let itemStart = -1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') {
+                inString = false;
+                if (depth === 1) lastKey = text.substring(stringStart + 1, i);
+            }
+            continue;
+        }
+
+        switch (char) {
+            case '"':
+                inString = true;
+                stringStart = i;
+                break;
+            case '{':
+            case '[':
+                depth++;
+                if (char === '[' && depth === 2 && lastKey === key && arrayDepth === -1) {
+                    arrayDepth = depth;
+                } else if (arrayDepth !== -1 && depth === arrayDepth + 1) {
+                    itemStart = i;
+                }
+                break;
+            case '}':
+            case ']':
+                if (arrayDepth !== -1 && depth === arrayDepth + 1 && itemStart !== -1) {
+                    try {
+                        items.push(JSON.parse(text.substring(itemStart, i + 1)));
+                    } catch {
+                        // Item malformado: será tratado na validação do JSON completo.
+                    }
+                    itemStart = -1;
+                } else if (depth === arrayDepth) {
+                    return items;
+                }
+                depth--;
+                break;
+        }
+    }
+    return items;
+}
@@ -0,0 +1,32 @@
+// utils/markdownUtils.ts
+// Funções auxiliares compartilhadas pelos conversores de documentos para Markdown.
+
+const escapeTableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>').trim();
+
+// Gera uma tabela Markdown (GFM), usando a primeira linha como cabeçalho e completando linhas curtas.
+export function renderTable(rows: string[][]): string {
+    if (rows.length === 0) return '';
+    const columnCount = Math.max(...rows.map(row => row.length));
+    const normalized = rows.map(row => [...row, ...Array(columnCount - row.length).fill('')].map(escapeTableCell));
+    const toLine = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    return [
+        toLine(normalized[0]),
+        toLine(Array(columnCount).fill('---')),
+        ...normalized.slice(1).map(toLine),
+    ].join('\n');
+}
+
+// Aplica uma marcação inline (negrito, itálico, código) mantendo os espaços das bordas fora dos marcadores,
+// já que "** texto**" não é reconhecido como negrito.
+export function wrapInline(text: string, marker: string): string {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) return text;
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+// Escolhe uma cerca de código que não colida com sequências de crases presentes no conteúdo.
+export function fenceCode(code: string, language = ''): string {
+    const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return `${fence}${language}\n${code}\n${fence}`;
+}
@@ -0,0 +1,315 @@
+// utils/mockExam.ts
+// Simulado cronometrado: formato das provas de certificação conhecidas, distribuição das questões entre os
+// objetivos do exame (os domínios oficiais ou, na falta deles, os tópicos principais do plano) e relatório
+// de desempenho por objetivo.
+
+import { getAIProvider } from '../services/aiProvider';
+import { Chapter, Documentation, QuizQuestion } from '../types';
+import { mapWithConcurrency } from './concurrency';
+import { scoreQuiz, isAnswerCorrect } from './quiz';
+
+export interface ExamDomain {
+    name: string;
+    // Peso publicado no guia oficial do exame (ponto médio da faixa, quando o guia dá uma faixa).
+    weight: number;
+    // Termos (minúsculos, sem acento) usados para associar os tópicos do plano ao domínio. Cada termo casa
+    // como palavra inteira (aceitando plural em "s"); com "*" no fim, casa como prefixo.
+    keywords: string[];
+}
+
+export interface ExamFormat {
+    name: string;
+    questionCount: number;
+    durationMinutes: number;
+    domains?: ExamDomain[];
+}
+
+// Formato aproximado das provas oficiais (número de questões e duração) e os domínios do guia de estudo.
+export const CERTIFICATION_EXAMS: Record<string, ExamFormat> = {
+    'AZ-104': {
+        name: 'Microsoft Certified: Azure Administrator Associate', questionCount: 50, durationMinutes: 100,
+        domains: [
+            { name: 'Gerenciar identidades e governança do Azure', weight: 22.5, keywords: ['identidade', 'identity', 'entra', 'active directory', 'governanca', 'governance', 'rbac', 'policy', 'politica', 'assinatura', 'subscription', 'grupo de gerenciamento', 'management group', 'usuario', 'custo', 'cost', 'bloqueio', 'lock'] },
+            { name: 'Implementar e gerenciar armazenamento', weight: 17.5, keywords: ['armazenamento', 'storage', 'blob', 'azure files', 'compartilhamento de arquivos', 'file share', 'sas', 'replicacao', 'azcopy'] },
+            { name: 'Implantar e gerenciar recursos de computação do Azure', weight: 22.5, keywords: ['computacao', 'compute', 'maquina virtual', 'maquinas virtuais', 'virtual machine', 'arm template', 'modelo arm', 'bicep', 'container', 'conteiner', 'app service', 'aks', 'kubernetes', 'scale set', 'conjunto de dimensionamento'] },
+            { name: 'Implementar e gerenciar redes virtuais', weight: 17.5, keywords: ['rede virtual', 'redes virtuais', 'virtual network', 'vnet', 'sub-rede', 'subnet', 'nsg', 'dns', 'peering', 'emparelhamento', 'load balancer', 'balanceador', 'gateway', 'vpn'] },
+            { name: 'Monitorar e manter recursos do Azure', weight: 12.5, keywords: ['monitor*', 'log analytics', 'alerta', 'alert', 'backup', 'site recovery', 'recuperacao', 'insights', 'metrica', 'metric'] },
+        ],
+    },
+    'CCNA 200-301': {
+        name: 'Cisco Certified Network Associate', questionCount: 100, durationMinutes: 120,
+        domains: [
+            { name: 'Fundamentos de rede', weight: 20, keywords: ['fundament*', 'osi', 'tcp/ip', 'cabeamento', 'cabling', 'ipv4', 'ipv6', 'enderecamento', 'addressing', 'sub-rede', 'subnet', 'topologia', 'topology'] },
+            { name: 'Acesso à rede', weight: 20, keywords: ['acesso a rede', 'network access', 'vlan', 'trunk', 'tronco', 'spanning tree', 'stp', 'etherchannel', 'wireless', 'sem fio', 'wlan', 'cdp', 'lldp'] },
+            { name: 'Conectividade IP', weight: 25, keywords: ['conectividade ip', 'ip connectivity', 'roteamento', 'routing', 'rota', 'route', 'ospf', 'fhrp', 'hsrp', 'roteador', 'router'] },
+            { name: 'Serviços IP', weight: 10, keywords: ['servicos ip', 'ip services', 'nat', 'ntp', 'dhcp', 'snmp', 'syslog', 'qos', 'tftp'] },
+            { name: 'Fundamentos de segurança', weight: 15, keywords: ['seguranca', 'security', 'acl', 'port security', 'aaa', 'wpa', 'senha', 'password', 'snooping', 'ameaca', 'threat'] },
+            { name: 'Automação e programabilidade', weight: 10, keywords: ['automacao', 'automation', 'programabilidade', 'programmability', 'sdn', 'rest', 'json', 'ansible', 'puppet', 'chef', 'controlador', 'controller'] },
+        ],
+    },
+    'AWS-SAA-C03': {
+        name: 'AWS Certified Solutions Architect – Associate', questionCount: 65, durationMinutes: 130,
+        domains: [
+            { name: 'Projetar arquiteturas seguras', weight: 30, keywords: ['segur*', 'secur*', 'iam', 'kms', 'criptografia', 'encryption', 'secrets manager', 'cognito', 'waf', 'shield', 'guardduty', 'permiss*'] },
+            { name: 'Projetar arquiteturas resilientes', weight: 26, keywords: ['resilien*', 'alta disponibilidade', 'high availability', 'multi-az', 'failover', 'desacopl*', 'decoupl*', 'sqs', 'sns', 'auto scaling', 'recuperacao de desastres', 'disaster recovery', 'route 53'] },
+            { name: 'Projetar arquiteturas de alto desempenho', weight: 24, keywords: ['desempenho', 'performance', 'cache', 'elasticache', 'cloudfront', 'dynamodb', 'rds', 'aurora', 'ebs', 'efs', 'kinesis', 'lambda'] },
+            { name: 'Projetar arquiteturas com custo otimizado', weight: 20, keywords: ['custo', 'cost', 'preco', 'pricing', 'spot', 'instancias reservadas', 'reserved', 'savings plan', 'orcamento', 'budget', 'faturamento', 'billing'] },
+        ],
+    },
+    'GCP-ACE': {
+        name: 'Google Cloud Certified - Associate Cloud Engineer', questionCount: 50, durationMinutes: 120,
+        domains: [
+            { name: 'Configurar um ambiente de solução em nuvem', weight: 23, keywords: ['projeto', 'project', 'faturamento', 'billing', 'organizacao', 'organization', 'hierarquia de recursos', 'resource hierarchy', 'cloud shell', 'gcloud', 'cota', 'quota'] },
+            { name: 'Planejar e implementar uma solução em nuvem', weight: 30, keywords: ['compute engine', 'gke', 'kubernetes', 'cloud run', 'app engine', 'cloud functions', 'cloud storage', 'cloud sql', 'bigquery', 'vpc', 'implant*', 'deploy'] },
+            { name: 'Garantir a operação da solução em nuvem', weight: 27, keywords: ['operacao', 'operation', 'monitoramento', 'monitoring', 'logging', 'registro', 'snapshot', 'backup', 'escalonamento', 'autoscal*'] },
+            { name: 'Configurar acesso e segurança', weight: 20, keywords: ['iam', 'seguranca', 'security', 'conta de servico', 'service account', 'papel', 'role', 'permiss*', 'acesso', 'access', 'auditoria', 'audit'] },
+        ],
+    },
+};
+
+// Usado em planos que não correspondem a uma certificação conhecida.
+export const DEFAULT_EXAM_FORMAT: ExamFormat = { name: 'Simulado do plano', questionCount: 20, durationMinutes: 30 };
+
+// Nota mínima usada como referência de aprovação no relatório.
+export const PASSING_SCORE = 0.7;
+
+// Requisições simultâneas ao provedor e questões pedidas em cada uma.
+const GENERATION_CONCURRENCY = 2;
+const QUESTIONS_PER_REQUEST = 10;
+// Tentativas por bloco de questões: a segunda cobre tanto falhas da requisição quanto blocos que vieram
+// com menos questões do que o pedido.
+const MAX_ATTEMPTS_PER_REQUEST = 2;
+
+// Um objetivo do exame é um domínio do guia oficial (com os tópicos principais associados a ele) ou,
+// nos planos sem certificação conhecida, um tópico principal do plano.
+export interface ExamObjective {
+    title: string;
+    // Fração das questões destinada ao objetivo.
+    weight: number;
+    questionCount: number;
+    // Tópicos principais do plano que compõem o objetivo.
+    chapterTitles: string[];
+    topics: { title: string; content: string; questionCount: number }[];
+}
+
+export interface ExamBlueprint {
+    // 'domains': pesos publicados do exame; 'content': volume de conteúdo de cada tópico principal.
+    weighting: 'domains' | 'content';
+    objectives: ExamObjective[];
+    // Domínios do exame sem nenhum tópico correspondente no plano; o peso deles é redistribuído.
+    uncoveredDomains: string[];
+    // Tópicos principais que não se encaixam em nenhum domínio e ficam fora do simulado.
+    unmappedChapters: string[];
+}
+
+export interface MockExamQuestion extends QuizQuestion {
+    objectiveIndex: number;
+}
+
+export interface ObjectiveScore {
+    title: string;
+    correct: number;
+    total: number;
+}
+
+export interface MockExamReport {
+    score: number;
+    total: number;
+    byObjective: ObjectiveScore[];
+}
+
+// Identifica a certificação pelo código ou pelo nome oficial no título do plano.
+export function findExamFormat(planTitle: string): ExamFormat | null {
+    const title = planTitle.toUpperCase();
+    const match = Object.entries(CERTIFICATION_EXAMS).find(([code, format]) => title.includes(code) || title.includes(format.name.toUpperCase()));
+    return match ? match[1] : null;
+}
+
+// Divide `total` proporcionalmente aos pesos pelo método dos maiores restos, garantindo ao menos
+// uma questão por item enquanto houver questões suficientes.
+export function allocateQuestions(weights: number[], total: number): number[] {
+    if (weights.length === 0) return [];
+    const guaranteed = total >= weights.length ? 1 : 0;
+    const remaining = total - guaranteed * weights.length;
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    const shares = weights.map(weight => (weightSum > 0 ? weight / weightSum : 1 / weights.length) * remaining);
+    const counts = shares.map(share => guaranteed + Math.floor(share));
+    const leftover = total - counts.reduce((sum, count) => sum + count, 0);
+    shares
+        .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+        .sort((a, b) => b.remainder - a.remainder)
+        .slice(0, leftover)
+        .forEach(({ index }) => counts[index]++);
+    return counts;
+}
+
+const flattenChapter = (chapter: Chapter): Chapter[] => [chapter, ...(chapter.subChapters ?? []).flatMap(flattenChapter)];
+
+const normalizeText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const keywordPattern = (keyword: string) => {
+    const isPrefix = keyword.endsWith('*');
+    const escaped = (isPrefix ? keyword.slice(0, -1) : keyword).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![a-z0-9])${escaped}${isPrefix ? '' : 's?(?![a-z0-9])'}`, 'g');
+};
+
+const countOccurrences = (text: string, keyword: string) => text.match(keywordPattern(keyword))?.length ?? 0;
+
+// Pontuação de afinidade entre um tópico principal e um domínio: termos no título pesam mais que no conteúdo,
+// e as ocorrências no conteúdo são limitadas para que um único termo repetido não decida sozinho.
+const TITLE_MATCH_SCORE = 5;
+const MAX_CONTENT_MATCHES_PER_KEYWORD = 5;
+
+function domainAffinity(title: string, content: string, domain: ExamDomain): number {
+    return domain.keywords.reduce((score, keyword) =>
+        score + (countOccurrences(title, keyword) > 0 ? TITLE_MATCH_SCORE : 0) + Math.min(MAX_CONTENT_MATCHES_PER_KEYWORD, countOccurrences(content, keyword)), 0);
+}
+
+interface PlanChapter {
+    title: string;
+    topics: Chapter[];
+}
+
+const contentLength = (topics: Chapter[]) => topics.reduce((sum, topic) => sum + topic.content.length, 0);
+
+function buildObjective(title: string, weight: number, questionCount: number, chapters: PlanChapter[]): ExamObjective {
+    const topics = chapters.flatMap(chapter => chapter.topics);
+    // Dentro de um objetivo, as questões são divididas pelo volume de conteúdo de cada tópico.
+    const topicCounts = allocateQuestions(topics.map(topic => topic.content.length), questionCount);
+    return {
+        title,
+        weight,
+        questionCount,
+        chapterTitles: chapters.map(chapter => chapter.title),
+        topics: topics
+            .map((topic, index) => ({ title: topic.title, content: topic.content, questionCount: topicCounts[index] }))
+            .filter(topic => topic.questionCount > 0),
+    };
+}
+
+// Distribui as questões pelos domínios oficiais do exame, com os tópicos principais do plano associados a
+// cada domínio por palavras-chave. Sem domínios conhecidos (ou se nenhum tópico se encaixar), usa como
+// alternativa o volume de conteúdo de cada tópico principal.
+export function buildExamBlueprint(doc: Documentation, questionCount: number, format: ExamFormat): ExamBlueprint {
+    const chapters: PlanChapter[] = doc.chapters
+        .map(chapter => ({ title: chapter.title, topics: flattenChapter(chapter).filter(topic => topic.content.trim().length > 0) }))
+        .filter(chapter => chapter.topics.length > 0);
+
+    const domains = format.domains ?? [];
+    const assigned = domains.map((): PlanChapter[] => []);
+    const unmappedChapters: string[] = [];
+    chapters.forEach(chapter => {
+        const title = normalizeText(chapter.title);
+        const content = normalizeText(chapter.topics.map(topic => `${topic.title}\n${topic.content}`).join('\n'));
+        const scores = domains.map(domain => domainAffinity(title, content, domain));
+        const best = scores.reduce((bestIndex, score, index) => (score > scores[bestIndex] ? index : bestIndex), 0);
+        if (domains.length > 0 && scores[best] > 0) assigned[best].push(chapter);
+        else unmappedChapters.push(chapter.title);
+    });
+
+    const covered = domains.map((domain, index) => ({ domain, chapters: assigned[index] })).filter(entry => entry.chapters.length > 0);
+    if (covered.length === 0) {
+        const weights = chapters.map(chapter => contentLength(chapter.topics));
+        const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+        const counts = allocateQuestions(weights, questionCount);
+        return {
+            weighting: 'content',
+            objectives: chapters
+                .map((chapter, index) => buildObjective(chapter.title, weightSum > 0 ? weights[index] / weightSum : 0, counts[index], [chapter]))
+                .filter(objective => objective.questionCount > 0),
+            uncoveredDomains: [],
+            unmappedChapters: [],
+        };
+    }
+
+    const weightSum = covered.reduce((sum, entry) => sum + entry.domain.weight, 0);
+    const counts = allocateQuestions(covered.map(entry => entry.domain.weight), questionCount);
+    return {
+        weighting: 'domains',
+        objectives: covered
+            .map((entry, index) => buildObjective(entry.domain.name, entry.domain.weight / weightSum, counts[index], entry.chapters))
+            .filter(objective => objective.questionCount > 0),
+        uncoveredDomains: domains.filter((_, index) => assigned[index].length === 0).map(domain => domain.name),
+        unmappedChapters,
+    };
+}
+
+const shuffle = <T,>(items: T[]): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
+interface GenerationOptions {
+    signal: AbortSignal;
+    onProgress: (completed: number, total: number) => void;
+}
+
+export interface MockExamGenerationFailure {
+    topicTitle: string;
+    message: string;
+}
+
+export interface MockExamGeneration {
+    questions: MockExamQuestion[];
+    // Total previsto pela distribuição; pode ser maior que o gerado se algum bloco falhar.
+    plannedCount: number;
+    failures: MockExamGenerationFailure[];
+}
+
+// Gera as questões de todos os objetivos e as embaralha, como na prova real. Um bloco que falha não
+// impede o simulado: as falhas são devolvidas junto com as questões obtidas. O cancelamento (via
+// `signal`) é propagado como erro.
+export async function generateMockExam(blueprint: ExamObjective[], options: GenerationOptions): Promise<MockExamGeneration> {
+    const { signal, onProgress } = options;
+    const requests = blueprint.flatMap((objective, objectiveIndex) => objective.topics.flatMap(topic =>
+        Array.from({ length: Math.ceil(topic.questionCount / QUESTIONS_PER_REQUEST) }, (_, batch) => ({
+            objectiveIndex,
+            topic,
+            count: Math.min(QUESTIONS_PER_REQUEST, topic.questionCount - batch * QUESTIONS_PER_REQUEST),
+        }))
+    ));
+
+    const failures: MockExamGenerationFailure[] = [];
+    let completed = 0;
+    onProgress(completed, requests.length);
+    const batches = await mapWithConcurrency(requests, GENERATION_CONCURRENCY, async request => {
+        const questions: QuizQuestion[] = [];
+        let lastError: unknown = null;
+        for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_REQUEST && questions.length < request.count; attempt++) {
+            signal.throwIfAborted();
+            const missing = request.count - questions.length;
+            try {
+                const generated = await getAIProvider().generateChapterQuiz(request.topic.title, request.topic.content, missing, signal);
+                questions.push(...generated.slice(0, missing));
+            } catch (err) {
+                if (signal.aborted) throw err;
+                lastError = err;
+            }
+        }
+        if (questions.length === 0 && lastError) {
+            failures.push({ topicTitle: request.topic.title, message: lastError instanceof Error ? lastError.message : String(lastError) });
+        }
+        onProgress(++completed, requests.length);
+        return questions.map(question => ({ ...question, objectiveIndex: request.objectiveIndex }));
+    });
+    return {
+        questions: shuffle(batches.flat()),
+        plannedCount: requests.reduce((sum, request) => sum + request.count, 0),
+        failures,
+    };
+}
+
+export function buildExamReport(blueprint: ExamObjective[], questions: MockExamQuestion[], answers: number[][]): MockExamReport {
+    const byObjective = blueprint.map(objective => ({ title: objective.title, correct: 0, total: 0 }));
+    questions.forEach((question, index) => {
+        const entry = byObjective[question.objectiveIndex];
+        if (!entry) return;
+        entry.total++;
+        if (isAnswerCorrect(question, answers[index] ?? [])) entry.correct++;
+    });
+    return { score: scoreQuiz(questions, answers), total: questions.length, byObjective };
+}
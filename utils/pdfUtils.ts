@@ -0,0 +1,70 @@
+import { getDocument, GlobalWorkerOptions, version } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// O worker do pdf.js é carregado do CDN na mesma versão da biblioteca, assim como o showdown.
+GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+
+export interface PdfPage {
+    pageNumber: number;
+    text: string;
+}
+
+// Reconstrói as linhas de uma página a partir dos fragmentos de texto do pdf.js.
+// Uma nova linha é iniciada quando o fragmento indica fim de linha ou quando a coordenada vertical muda.
+function joinTextItems(items: TextItem[]): string {
+    let text = '';
+    let lastY: number | null = null;
+
+    items.forEach(item => {
+        const y = item.transform[5];
+        if (lastY !== null && Math.abs(y - lastY) > 2 && !text.endsWith('\n')) {
+            text += '\n';
+        } else if (text && !/[\s\n]$/.test(text) && item.str && !/^\s/.test(item.str)) {
+            text += ' ';
+        }
+        text += item.str;
+        if (item.hasEOL) {
+            text += '\n';
+        }
+        lastY = y;
+    });
+
+    return text
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+// Extrai o texto de cada página de um PDF, preservando a numeração das páginas.
+export async function extractPdfPages(data: ArrayBuffer): Promise<PdfPage[]> {
+    const pdf = await getDocument({ data: new Uint8Array(data) }).promise;
+    try {
+        const pages: PdfPage[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const textContent = await page.getTextContent();
+            const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+            pages.push({ pageNumber, text: joinTextItems(items) });
+            page.cleanup();
+        }
+        return pages;
+    } finally {
+        pdf.destroy();
+    }
+}
+
+// Converte um PDF em texto com marcadores de página, pronto para ser incluído no prompt.
+export async function extractPdfText(data: ArrayBuffer): Promise<string> {
+    const pages = await extractPdfPages(data);
+    const pagesWithText = pages.filter(page => page.text.length > 0);
+
+    if (pagesWithText.length === 0) {
+        throw new Error("O PDF não contém texto extraível (pode ser um documento digitalizado).");
+    }
+
+    return pagesWithText
+        .map(page => `[Página ${page.pageNumber}]\n${page.text}`)
+        .join('\n\n');
+}
@@ -0,0 +1,85 @@
+// utils/planValidation.ts
+// Validação em tempo de execução dos planos de estudo retornados pela IA.
+
+import { Chapter, Documentation } from '../types';
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+// Erro lançado quando a resposta da IA não segue o formato esperado, com o relatório por campo.
+export class PlanValidationError extends Error {
+    issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[], maxListed = 5) {
+        const listed = issues.slice(0, maxListed).map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+        const remaining = issues.length > maxListed ? `\n- ... e mais ${issues.length - maxListed} problema(s)` : '';
+        super(`A resposta da IA não está no formato esperado:\n${listed}${remaining}`);
+        this.name = 'PlanValidationError';
+        this.issues = issues;
+    }
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+function validateChapters(value: unknown, path: string, issues: ValidationIssue[], required: boolean) {
+    if (value === undefined || value === null) {
+        if (required) issues.push({ path, message: 'lista de tópicos ausente' });
+        return;
+    }
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: 'deveria ser uma lista' });
+        return;
+    }
+    if (required && value.length === 0) {
+        issues.push({ path, message: 'o plano não contém nenhum tópico' });
+    }
+
+    value.forEach((chapter, i) => {
+        const chapterPath = `${path}[${i}]`;
+        if (typeof chapter !== 'object' || chapter === null || Array.isArray(chapter)) {
+            issues.push({ path: chapterPath, message: 'deveria ser um objeto de tópico' });
+            return;
+        }
+        const { title, content, subChapters } = chapter as Record<string, unknown>;
+        if (!isNonEmptyString(title)) {
+            issues.push({ path: `${chapterPath}.title`, message: typeof title === 'string' ? 'título vazio' : 'título ausente ou não é texto' });
+        }
+        if (typeof content !== 'string') {
+            issues.push({ path: `${chapterPath}.content`, message: 'conteúdo ausente ou não é texto' });
+        }
+        validateChapters(subChapters, `${chapterPath}.subChapters`, issues, false);
+    });
+}
+
+// Valida toda a árvore do plano, incluindo os subtópicos aninhados. Retorna a lista de problemas encontrados.
+export function validateDocumentation(data: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return [{ path: '(raiz)', message: 'a resposta deveria ser um objeto JSON' }];
+    }
+    const { title, chapters } = data as Record<string, unknown>;
+    if (!isNonEmptyString(title)) {
+        issues.push({ path: 'title', message: 'título do plano ausente ou vazio' });
+    }
+    validateChapters(chapters, 'chapters', issues, true);
+    return issues;
+}
+
+// Verifica um único tópico (e seus subtópicos), por exemplo ao receber tópicos parciais durante o streaming.
+export function isValidChapter(data: unknown): data is Chapter {
+    const issues: ValidationIssue[] = [];
+    validateChapters([data], 'chapter', issues, false);
+    return issues.length === 0;
+}
+
+// Normaliza um plano já validado: garante que todo tópico tenha a lista de subtópicos (vazia, se for o caso).
+export function normalizeDocumentation(doc: Documentation): Documentation {
+    const normalizeChapter = (chapter: Chapter): Chapter => ({
+        title: chapter.title.trim(),
+        content: chapter.content,
+        subChapters: (chapter.subChapters ?? []).map(normalizeChapter),
+    });
+    return { title: doc.title.trim(), chapters: doc.chapters.map(normalizeChapter) };
+}
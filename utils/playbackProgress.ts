@@ -0,0 +1,61 @@
+// utils/playbackProgress.ts
+// Guarda, por plano, onde a narração parou e quanto de cada tópico já foi ouvido,
+// para retomar a escuta em outra sessão.
+
+const PLAYBACK_PROGRESS_STORAGE_KEY = 'cortexPlaybackProgress';
+
+export interface ResumePosition {
+    chapterIndex: number;
+    chapterTitle: string;
+    // Bloco do tópico (parágrafo, lista, tabela...) a partir do qual a narração é retomada.
+    paragraphIndex: number;
+    paragraphCount: number;
+    updatedAt: number;
+}
+
+export interface PlanPlaybackProgress {
+    resumePosition: ResumePosition | null;
+    // Fração já ouvida de cada tópico (0 a 1), pelo índice do tópico na lista do sumário.
+    listened: Record<number, number>;
+    // Blocos de cada tópico cuja narração tocou até o fim; é deles que sai a fração ouvida.
+    heardParagraphs: Record<number, number[]>;
+}
+
+export const EMPTY_PLAYBACK_PROGRESS: PlanPlaybackProgress = { resumePosition: null, listened: {}, heardParagraphs: {} };
+
+function loadAllProgress(): Record<string, PlanPlaybackProgress> {
+    try {
+        const saved = localStorage.getItem(PLAYBACK_PROGRESS_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        console.error("Falha ao carregar o progresso de escuta do localStorage", e);
+        return {};
+    }
+}
+
+export function loadPlaybackProgress(planId: string): PlanPlaybackProgress {
+    const progress = loadAllProgress()[planId];
+    if (!progress) return EMPTY_PLAYBACK_PROGRESS;
+    // Progresso salvo antes de `heardParagraphs` media a fração pelo bloco em que a narração começou,
+    // o que contava como ouvido tudo o que vinha antes de um clique ou de um salto; essa fração é descartada.
+    if (!progress.heardParagraphs) return { ...EMPTY_PLAYBACK_PROGRESS, resumePosition: progress.resumePosition ?? null };
+    return { ...EMPTY_PLAYBACK_PROGRESS, ...progress };
+}
+
+function saveAllProgress(progress: Record<string, PlanPlaybackProgress>) {
+    try {
+        localStorage.setItem(PLAYBACK_PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+    } catch (e) {
+        console.error("Falha ao salvar o progresso de escuta no localStorage", e);
+    }
+}
+
+export function savePlaybackProgress(planId: string, progress: PlanPlaybackProgress) {
+    saveAllProgress({ ...loadAllProgress(), [planId]: progress });
+}
+
+// Remove o progresso de um plano excluído.
+export function clearPlaybackProgress(planId: string) {
+    const { [planId]: _removed, ...others } = loadAllProgress();
+    saveAllProgress(others);
+}
@@ -0,0 +1,29 @@
+// utils/quiz.ts
+// Funções auxiliares dos questionários: seções citadas nas explicações e correção das respostas.
+
+import { QuizQuestion } from '../types';
+
+// Títulos das seções (cabeçalhos Markdown) de um tópico, que as explicações usam para indicar onde revisar.
+// Cabeçalhos dentro de blocos de código são ignorados.
+export function listSectionTitles(markdown: string): string[] {
+    const titles: string[] = [];
+    let inCodeBlock = false;
+    markdown.split('\n').forEach(line => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCodeBlock = !inCodeBlock;
+            return;
+        }
+        const match = !inCodeBlock && line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+        if (match) titles.push(match[1].replace(/[*_`]/g, '').trim());
+    });
+    return titles;
+}
+
+// Uma questão só conta como certa se as alternativas marcadas forem exatamente as corretas.
+export function isAnswerCorrect(question: QuizQuestion, answer: number[]): boolean {
+    return answer.length === question.correctOptions.length && question.correctOptions.every(option => answer.includes(option));
+}
+
+export function scoreQuiz(questions: QuizQuestion[], answers: number[][]): number {
+    return questions.filter((question, index) => isAnswerCorrect(question, answers[index] ?? [])).length;
+}
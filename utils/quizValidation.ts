@@ -0,0 +1,65 @@
+// utils/quizValidation.ts
+// Validação em tempo de execução dos questionários retornados pela IA.
+
+import { QuizQuestion } from '../types';
+import { ValidationIssue } from './planValidation';
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const MIN_OPTIONS = 2;
+
+// Valida as questões de um questionário. Retorna a lista de problemas encontrados.
+export function validateQuiz(data: unknown): ValidationIssue[] {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return [{ path: '(raiz)', message: 'a resposta deveria ser um objeto JSON' }];
+    }
+    const { questions } = data as Record<string, unknown>;
+    if (!Array.isArray(questions)) {
+        return [{ path: 'questions', message: 'lista de questões ausente' }];
+    }
+    if (questions.length === 0) {
+        return [{ path: 'questions', message: 'o questionário não contém nenhuma questão' }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    questions.forEach((item, i) => {
+        const path = `questions[${i}]`;
+        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+            issues.push({ path, message: 'deveria ser um objeto de questão' });
+            return;
+        }
+        const { type, question, options, correctOptions, explanation } = item as Record<string, unknown>;
+        if (type !== 'single' && type !== 'multiple') {
+            issues.push({ path: `${path}.type`, message: 'tipo deveria ser "single" ou "multiple"' });
+        }
+        if (!isNonEmptyString(question)) {
+            issues.push({ path: `${path}.question`, message: 'enunciado ausente ou vazio' });
+        }
+        if (!isNonEmptyString(explanation)) {
+            issues.push({ path: `${path}.explanation`, message: 'explicação ausente ou vazia' });
+        }
+        if (!Array.isArray(options) || options.length < MIN_OPTIONS || !options.every(isNonEmptyString)) {
+            issues.push({ path: `${path}.options`, message: `deveria ter ao menos ${MIN_OPTIONS} alternativas de texto` });
+            return;
+        }
+        const isValidIndex = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) < options.length;
+        if (!Array.isArray(correctOptions) || correctOptions.length === 0 || !correctOptions.every(isValidIndex)) {
+            issues.push({ path: `${path}.correctOptions`, message: 'deveria indicar ao menos uma alternativa existente' });
+        } else if (type === 'single' && new Set(correctOptions).size !== 1) {
+            issues.push({ path: `${path}.correctOptions`, message: 'questão de resposta única com mais de uma alternativa correta' });
+        }
+    });
+    return issues;
+}
+
+// Normaliza um questionário já validado: remove espaços extras e índices repetidos.
+export function normalizeQuiz(questions: QuizQuestion[]): QuizQuestion[] {
+    return questions.map(question => ({
+        type: question.type,
+        question: question.question.trim(),
+        options: question.options.map(option => option.trim()),
+        correctOptions: [...new Set(question.correctOptions)].sort((a, b) => a - b),
+        explanation: question.explanation.trim(),
+        ...(isNonEmptyString(question.section) ? { section: question.section.trim() } : {}),
+    }));
+}
@@ -0,0 +1,59 @@
+// utils/settings.ts
+// Carrega e salva as configurações de IA do usuário. A chave da API fica só no localStorage
+// deste navegador e nunca é incluída no bundle.
+
+import { AISettings } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'cortexAISettings';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+    apiKey: '',
+    planModel: 'gemini-2.5-pro',
+    summaryModel: 'gemini-2.5-flash',
+    ttsModel: 'gemini-2.5-flash-preview-tts',
+    planMaxOutputTokens: 8192,
+    planThinkingBudget: 16384,
+    summaryMaxOutputTokens: 1024,
+    summaryThinkingBudget: 512,
+};
+
+// Mescla o que foi salvo com os valores padrão, descartando campos com tipo inválido.
+export function loadAISettings(): AISettings {
+    try {
+        const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (!saved) return { ...DEFAULT_AI_SETTINGS };
+        const parsed = JSON.parse(saved) as Record<string, unknown>;
+        const settings: AISettings = { ...DEFAULT_AI_SETTINGS };
+        (Object.keys(DEFAULT_AI_SETTINGS) as (keyof AISettings)[]).forEach(key => {
+            if (typeof parsed[key] === typeof DEFAULT_AI_SETTINGS[key]) {
+                (settings as unknown as Record<string, unknown>)[key] = parsed[key];
+            }
+        });
+        return settings;
+    } catch (e) {
+        console.error("Falha ao carregar as configurações de IA do localStorage", e);
+        return { ...DEFAULT_AI_SETTINGS };
+    }
+}
+
+export function saveAISettings(settings: AISettings) {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+const AUDIO_CACHE_QUOTA_STORAGE_KEY = 'cortexAudioCacheQuotaMB';
+export const DEFAULT_AUDIO_CACHE_QUOTA_MB = 500;
+
+// Limite do cache de áudio em megabytes; acima dele, os clipes usados há mais tempo são descartados.
+export function loadAudioCacheQuotaMB(): number {
+    try {
+        const saved = Number(localStorage.getItem(AUDIO_CACHE_QUOTA_STORAGE_KEY));
+        return Number.isFinite(saved) && saved > 0 ? saved : DEFAULT_AUDIO_CACHE_QUOTA_MB;
+    } catch (e) {
+        console.error("Falha ao carregar o limite do cache de áudio do localStorage", e);
+        return DEFAULT_AUDIO_CACHE_QUOTA_MB;
+    }
+}
+
+export function saveAudioCacheQuotaMB(quotaMB: number) {
+    localStorage.setItem(AUDIO_CACHE_QUOTA_STORAGE_KEY, String(quotaMB));
+}
@@ -0,0 +1,44 @@
+// utils/spacedRepetition.ts
+// Agendamento das revisões dos cartões pelo algoritmo SM-2 (SuperMemo 2).
+
+import { Flashcard, ReviewGrade } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+const startOfDay = (timestamp: number) => {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+};
+
+export type FlashcardSchedule = Pick<Flashcard, 'easeFactor' | 'interval' | 'repetitions' | 'lapses' | 'dueAt'>;
+
+// Estado de um cartão novo: disponível para revisão imediatamente.
+export function initialSchedule(now = Date.now()): FlashcardSchedule {
+    return { easeFactor: INITIAL_EASE_FACTOR, interval: 0, repetitions: 0, lapses: 0, dueAt: now };
+}
+
+// Aplica a nota da revisão. Um cartão esquecido (nota abaixo de 3) volta ao início da sequência de intervalos
+// e continua na revisão do dia até ser lembrado.
+export function scheduleReview(card: FlashcardSchedule, grade: ReviewGrade, now = Date.now()): FlashcardSchedule {
+    const easeFactor = Math.max(MIN_EASE_FACTOR, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+    if (grade < 3) {
+        return {
+            easeFactor,
+            interval: 0,
+            repetitions: 0,
+            lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+            dueAt: now,
+        };
+    }
+    const repetitions = card.repetitions + 1;
+    const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.easeFactor);
+    return { easeFactor, interval, repetitions, lapses: card.lapses, dueAt: startOfDay(now) + interval * DAY_MS };
+}
+
+// Cartões que vencem em qualquer momento de hoje entram na revisão do dia.
+export function isDue(card: Pick<Flashcard, 'dueAt'>, now = Date.now()): boolean {
+    return card.dueAt < startOfDay(now) + DAY_MS;
+}
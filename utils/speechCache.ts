@@ -0,0 +1,93 @@
+// utils/speechCache.ts
+// Obtém o áudio de um trecho narrado: usa o cache local (IndexedDB) e só chama o provedor de IA quando necessário.
+// O cache tem um limite de tamanho configurável; ao ultrapassá-lo, os clipes usados há mais tempo são descartados.
+
+import { getAIProvider } from '../services/aiProvider';
+import { AudioCacheUsage, AudioClipMetadata } from '../types';
+import { getAudio, touchAudio, storeAudio, listAudioClipMetadata, deleteAudioClips } from './db';
+import { loadAISettings, loadAudioCacheQuotaMB } from './settings';
+
+// Plano e tópico que originaram o clipe, usados para mostrar o uso do cache por plano.
+export type SpeechClipOwner = Pick<AudioClipMetadata, 'planId' | 'chapterIndex'>;
+
+const NO_OWNER: SpeechClipOwner = { planId: null, chapterIndex: null };
+
+// A chave é o hash SHA-256 do modelo de voz, da voz e do texto, em vez do texto inteiro. O modelo entra na chave
+// para que, após trocá-lo nas configurações, os clipes do modelo anterior não sejam mais usados.
+export async function speechCacheKey(voice: string, text: string, ttsModel = loadAISettings().ttsModel): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${ttsModel}::${voice}::${text}`));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function generateAndStore(cacheKey: string, text: string, voice: string, owner: SpeechClipOwner, signal?: AbortSignal): Promise<string> {
+    const base64Audio = await getAIProvider().generateSpeech(text, voice, signal);
+    const now = Date.now();
+    await storeAudio(base64Audio, {
+        id: cacheKey,
+        voice,
+        ...owner,
+        // Tamanho armazenado (o áudio fica em base64).
+        bytes: base64Audio.length,
+        createdAt: now,
+        lastUsed: now,
+    });
+    enforceAudioCacheQuota().catch(console.error);
+    return base64Audio;
+}
+
+// Retorna o áudio do trecho em PCM 16 bits codificado em base64.
+export async function getSpeechClip(text: string, voice: string, signal?: AbortSignal, owner: SpeechClipOwner = NO_OWNER): Promise<string> {
+    const cacheKey = await speechCacheKey(voice, text);
+    const cached = await getAudio(cacheKey).catch(error => {
+        // Uma falha no cache não deve impedir a narração.
+        console.error(error);
+        return undefined;
+    });
+    if (cached) return cached;
+
+    return generateAndStore(cacheKey, text, voice, owner, signal);
+}
+
+// Gera e guarda o áudio do trecho, se ele ainda não estiver no cache. Retorna `true` quando houve geração.
+export async function ensureSpeechClip(text: string, voice: string, signal?: AbortSignal, owner: SpeechClipOwner = NO_OWNER): Promise<boolean> {
+    const cacheKey = await speechCacheKey(voice, text);
+    if (await touchAudio(cacheKey)) return false;
+
+    await generateAndStore(cacheKey, text, voice, owner, signal);
+    return true;
+}
+
+// Descarta os clipes usados há mais tempo até que o cache caiba no limite configurado.
+export async function enforceAudioCacheQuota(quotaMB = loadAudioCacheQuotaMB()): Promise<void> {
+    const clips = await listAudioClipMetadata();
+    const quotaBytes = quotaMB * 1024 * 1024;
+    let totalBytes = clips.reduce((sum, clip) => sum + clip.bytes, 0);
+
+    const evicted: string[] = [];
+    for (const clip of clips) {
+        if (totalBytes <= quotaBytes) break;
+        evicted.push(clip.id);
+        totalBytes -= clip.bytes;
+    }
+    await deleteAudioClips(evicted);
+}
+
+// Uso do cache agrupado por plano, do plano usado mais recentemente para o mais antigo.
+export async function getAudioCacheUsage(): Promise<AudioCacheUsage[]> {
+    const usage = new Map<string | null, AudioCacheUsage>();
+    (await listAudioClipMetadata()).forEach(clip => {
+        const entry = usage.get(clip.planId) ?? { planId: clip.planId, clipCount: 0, bytes: 0, lastUsed: 0 };
+        entry.clipCount++;
+        entry.bytes += clip.bytes;
+        entry.lastUsed = Math.max(entry.lastUsed, clip.lastUsed);
+        usage.set(clip.planId, entry);
+    });
+    return Array.from(usage.values()).sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+// Remove os clipes de um plano (`null`: clipes sem plano) ou, sem argumento, o cache inteiro.
+export async function clearAudioCache(planId?: string | null): Promise<void> {
+    const clips = await listAudioClipMetadata();
+    const ids = clips.filter(clip => planId === undefined || clip.planId === planId).map(clip => clip.id);
+    await deleteAudioClips(ids);
+}
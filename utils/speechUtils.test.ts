@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+
+import showdown from 'showdown';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_SPEECH_OPTIONS, countNarratedParagraphs, prepareSpeechParagraphs, splitIntoSpeechChunks } from './speechUtils';
+
+// No app, o showdown é carregado por um <script> em index.html.
+beforeAll(() => {
+    (globalThis as any).showdown = showdown;
+});
+
+describe('countNarratedParagraphs', () => {
+    it('não conta a linha horizontal, que não tem texto narrável', () => {
+        const chunks = splitIntoSpeechChunks(prepareSpeechParagraphs('Primeira parte.\n\n---\n\nSegunda parte.'));
+
+        expect(chunks.map(chunk => chunk.paragraphIndex)).toEqual([0, 2]);
+        expect(countNarratedParagraphs(chunks)).toBe(2);
+    });
+
+    it('não conta os blocos ignorados pelas opções de narração', () => {
+        const markdown = '## Visão geral\n\nTexto do tópico.\n\n```\nping 10.0.0.1\n```\n\n| A | B |\n|---|---|\n| 1 | 2 |';
+        const chunks = splitIntoSpeechChunks(prepareSpeechParagraphs(markdown, { ...DEFAULT_SPEECH_OPTIONS, headings: 'skip', codeBlocks: 'skip', tables: 'skip' }));
+
+        expect(countNarratedParagraphs(chunks)).toBe(1);
+    });
+
+    it('conta uma vez o parágrafo dividido em vários trechos', () => {
+        const sentence = 'Esta frase se repete para formar um parágrafo longo. ';
+        const chunks = splitIntoSpeechChunks(prepareSpeechParagraphs(`${sentence.repeat(30)}\n\n---\n\nFim.`), 200);
+
+        expect(chunks.length).toBeGreaterThan(2);
+        expect(countNarratedParagraphs(chunks)).toBe(2);
+    });
+});
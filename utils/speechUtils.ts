@@ -0,0 +1,223 @@
+// utils/speechUtils.ts
+// Prepara textos para a síntese de voz: converte o Markdown em texto narrável e o divide em trechos
+// curtos que podem ser gerados e reproduzidos em sequência, em vez de uma única requisição para o tópico inteiro.
+
+import { SpeechOptions } from '../types';
+
+declare const showdown: any;
+
+export interface SpeechChunk {
+    text: string;
+    // Índice do parágrafo (bloco do Markdown renderizado) de onde o trecho foi extraído.
+    paragraphIndex: number;
+}
+
+// Texto narrável de um bloco do Markdown renderizado (parágrafo, título, lista, tabela...).
+export interface SpeechParagraph {
+    text: string;
+    blockIndex: number;
+}
+
+export const DEFAULT_SPEECH_OPTIONS: SpeechOptions = {
+    headings: 'announce',
+    codeBlocks: 'summarize',
+    links: 'text',
+    tables: 'verbalize',
+    images: 'alt',
+};
+
+// Trechos longos demoram para começar a tocar e podem exceder o limite do modelo de voz.
+const MAX_CHUNK_CHARS = 600;
+
+const LANGUAGE_NAMES: Record<string, string> = {
+    js: 'JavaScript', javascript: 'JavaScript', ts: 'TypeScript', typescript: 'TypeScript', py: 'Python', python: 'Python',
+    sh: 'shell', bash: 'shell', shell: 'shell', ps1: 'PowerShell', powershell: 'PowerShell', yml: 'YAML', yaml: 'YAML',
+    json: 'JSON', sql: 'SQL', html: 'HTML', css: 'CSS', java: 'Java', cs: 'C#', csharp: 'C#', go: 'Go', hcl: 'Terraform', tf: 'Terraform',
+};
+
+// Mesmas opções usadas para exibir o conteúdo, para que os blocos narrados correspondam aos blocos exibidos.
+let converter: any = null;
+const getConverter = () => {
+    if (!converter) {
+        converter = new showdown.Converter({ ghCompatibleHeaderId: true, simpleLineBreaks: true, tables: true });
+    }
+    return converter;
+};
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ');
+
+// Garante uma pausa ao fim de cada frase narrada.
+const endSentence = (text: string) => {
+    const trimmed = text.trim();
+    return !trimmed || /[.!?:;…]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+};
+
+function describeUrl(url: string): string {
+    try {
+        return `link para ${new URL(url).hostname.replace(/^www\./, '')}`;
+    } catch {
+        return 'link';
+    }
+}
+
+function narrateInline(node: Node, options: SpeechOptions): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+        // URLs soltas no texto não são lidas caractere por caractere.
+        return collapseWhitespace(node.textContent ?? '').replace(/https?:\/\/[^\s)]+/g, describeUrl);
+    }
+    if (!(node instanceof Element)) return '';
+
+    const children = () => Array.from(node.childNodes).map(child => narrateInline(child, options)).join('');
+    switch (node.tagName.toLowerCase()) {
+        case 'br':
+            return ' ';
+        case 'code':
+            return node.textContent ?? '';
+        case 'img': {
+            const alt = node.getAttribute('alt')?.trim();
+            return options.images === 'alt' && alt ? ` Imagem: ${endSentence(alt)} ` : '';
+        }
+        case 'a': {
+            const href = node.getAttribute('href') ?? '';
+            const label = (node.textContent ?? '').trim();
+            if (!label || label === href || /^https?:\/\//.test(label)) return describeUrl(href);
+            const text = children();
+            return options.links === 'textAndDomain' && /^https?:/.test(href) ? `${text} (${describeUrl(href)})` : text;
+        }
+        default:
+            return children();
+    }
+}
+
+const inlineText = (element: Element, options: SpeechOptions) => narrateInline(element, options).replace(/\s+/g, ' ').trim();
+
+function narrateList(list: Element, options: SpeechOptions): string[] {
+    const ordered = list.tagName.toLowerCase() === 'ol';
+    return Array.from(list.children)
+        .filter(item => item.tagName.toLowerCase() === 'li')
+        .flatMap((item, i) => {
+            const nested: string[] = [];
+            const text = Array.from(item.childNodes)
+                .map(child => {
+                    if (child instanceof Element && ['ul', 'ol'].includes(child.tagName.toLowerCase())) {
+                        nested.push(...narrateList(child, options));
+                        return '';
+                    }
+                    return narrateInline(child, options);
+                })
+                .join('')
+                .replace(/\s+/g, ' ')
+                .trim();
+            const sentence = text ? endSentence(ordered ? `Item ${i + 1}: ${text}` : text) : '';
+            return [sentence, ...nested].filter(Boolean);
+        });
+}
+
+function narrateTable(table: Element, options: SpeechOptions): string {
+    const rows = Array.from(table.querySelectorAll('tr')).map(row =>
+        Array.from(row.children).map(cell => inlineText(cell, options)));
+    const hasHeader = table.querySelector('thead th') !== null;
+    const headers = hasHeader ? rows[0] : [];
+    const bodyRows = hasHeader ? rows.slice(1) : rows;
+    const rowCount = `${bodyRows.length} linha${bodyRows.length === 1 ? '' : 's'}`;
+
+    if (options.tables === 'summarize') {
+        return headers.length > 0 ? `Tabela com ${rowCount} e as colunas: ${headers.filter(Boolean).join(', ')}.` : `Tabela com ${rowCount}.`;
+    }
+    const sentences = bodyRows.map((cells, i) => {
+        const values = cells.map((cell, j) => (headers[j] ? `${headers[j]}: ${cell || 'vazio'}` : cell)).filter(Boolean);
+        return endSentence(`Linha ${i + 1}: ${values.join('; ')}`);
+    });
+    return [`Tabela com ${rowCount}.`, ...sentences].join(' ');
+}
+
+function narrateCode(pre: Element, options: SpeechOptions): string {
+    const code = (pre.textContent ?? '').replace(/\s+$/, '');
+    if (options.codeBlocks === 'read') {
+        return code.split('\n').map(line => line.trim()).filter(Boolean).map(endSentence).join(' ');
+    }
+    const classes = `${pre.className} ${pre.querySelector('code')?.className ?? ''}`;
+    const language = classes.match(/(?:^|\s)language-([\w+#-]+)/)?.[1]?.toLowerCase();
+    const languageName = language ? ` em ${LANGUAGE_NAMES[language] ?? language}` : '';
+    const lineCount = code.split('\n').length;
+    return `Aqui há um exemplo de código${languageName}, com ${lineCount} linha${lineCount === 1 ? '' : 's'}, que não é lido em voz alta.`;
+}
+
+function narrateBlock(element: Element, options: SpeechOptions): string {
+    const tag = element.tagName.toLowerCase();
+    switch (tag) {
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+            if (options.headings === 'skip') return '';
+            const text = inlineText(element, options);
+            if (options.headings === 'plain' || !text) return endSentence(text);
+            return endSentence(`${Number(tag[1]) <= 2 ? 'Seção' : 'Subseção'}: ${text}`);
+        }
+        case 'pre':
+            return options.codeBlocks === 'skip' ? '' : narrateCode(element, options);
+        case 'ul':
+        case 'ol':
+            return narrateList(element, options).join(' ');
+        case 'table':
+            return options.tables === 'skip' ? '' : narrateTable(element, options);
+        case 'blockquote': {
+            const text = Array.from(element.children).map(child => narrateBlock(child, options)).filter(Boolean).join(' ');
+            return text ? `Citação: ${text}` : '';
+        }
+        case 'hr':
+            return '';
+        default:
+            return endSentence(inlineText(element, options));
+    }
+}
+
+// Converte o conteúdo em Markdown em texto para narração, um item por bloco exibido na tela.
+// Blocos sem conteúdo narrável (ou ignorados pelas opções) não geram itens, mas preservam a numeração dos demais.
+export function prepareSpeechParagraphs(markdown: string, options: SpeechOptions = DEFAULT_SPEECH_OPTIONS): SpeechParagraph[] {
+    const html = getConverter().makeHtml(markdown);
+    const body = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+    return Array.from(body.children)
+        .map((element, blockIndex) => ({ text: narrateBlock(element, options), blockIndex }))
+        .filter(paragraph => paragraph.text.length > 0);
+}
+
+// Divide um parágrafo longo em frases e as reagrupa até o limite de caracteres.
+// Frases que sozinhas passam do limite são cortadas entre palavras.
+function splitParagraph(paragraph: string, maxChars: number): string[] {
+    if (paragraph.length <= maxChars) return [paragraph];
+
+    const sentences = paragraph.match(/[^.!?…]+(?:[.!?…]+["'”)\]]*\s*|$)/g) ?? [paragraph];
+    const pieces: string[] = [];
+    let current = '';
+
+    const pushCurrent = () => {
+        if (current.trim()) pieces.push(current.trim());
+        current = '';
+    };
+
+    sentences.forEach(sentence => {
+        if (sentence.length > maxChars) {
+            pushCurrent();
+            sentence.split(/\s+/).forEach(word => {
+                if (current.length + word.length + 1 > maxChars) pushCurrent();
+                current += (current ? ' ' : '') + word;
+            });
+            return;
+        }
+        if (current.length + sentence.length > maxChars) pushCurrent();
+        current += sentence;
+    });
+    pushCurrent();
+
+    return pieces;
+}
+
+// Número de blocos que têm texto narrado. É a base da fração ouvida: os blocos ignorados na narração
+// (linhas horizontais, títulos ou tabelas desativados nas opções) não podem ser ouvidos.
+export function countNarratedParagraphs(chunks: SpeechChunk[]): number {
+    return new Set(chunks.map(chunk => chunk.paragraphIndex)).size;
+}
+
+export function splitIntoSpeechChunks(paragraphs: SpeechParagraph[], maxChars = MAX_CHUNK_CHARS): SpeechChunk[] {
+    return paragraphs.flatMap(({ text, blockIndex }) =>
+        splitParagraph(text, maxChars).map(piece => ({ text: piece, paragraphIndex: blockIndex })));
+}
@@ -0,0 +1,151 @@
+// utils/studyProgress.ts
+// Progresso de estudo por plano: etapa e tempo dedicado a cada tópico, e o painel que consolida
+// esses dados com as notas dos questionários e o áudio já ouvido.
+
+import { Chapter, ChapterStatus, Documentation, QuizAttempt } from '../types';
+
+const STUDY_PROGRESS_STORAGE_KEY = 'cortexStudyProgress';
+
+export interface ChapterStudyProgress {
+    status: ChapterStatus;
+    timeSpentMs: number;
+    updatedAt: number;
+}
+
+// Progresso de cada tópico, pelo índice do tópico na lista do sumário.
+export type PlanStudyProgress = Record<number, ChapterStudyProgress>;
+
+export const CHAPTER_STATUS_LABELS: Record<ChapterStatus, string> = {
+    not_started: 'Não iniciado',
+    reading: 'Lendo',
+    reviewed: 'Revisado',
+    mastered: 'Dominado',
+};
+
+// Quanto cada etapa representa da conclusão de um tópico.
+const STATUS_COMPLETION: Record<ChapterStatus, number> = {
+    not_started: 0,
+    reading: 0.25,
+    reviewed: 0.75,
+    mastered: 1,
+};
+
+// Pesos da prontidão: etapa de estudo, melhor nota no questionário e fração ouvida do tópico.
+const READINESS_WEIGHTS = { completion: 0.5, quiz: 0.3, listened: 0.2 };
+
+export const NOT_STARTED: ChapterStudyProgress = { status: 'not_started', timeSpentMs: 0, updatedAt: 0 };
+
+const clampFraction = (value: number) => (Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0);
+
+function loadAllProgress(): Record<string, PlanStudyProgress> {
+    try {
+        const saved = localStorage.getItem(STUDY_PROGRESS_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        console.error("Falha ao carregar o progresso de estudo do localStorage", e);
+        return {};
+    }
+}
+
+export function loadStudyProgress(planId: string): PlanStudyProgress {
+    return loadAllProgress()[planId] ?? {};
+}
+
+function saveAllProgress(progress: Record<string, PlanStudyProgress>) {
+    try {
+        localStorage.setItem(STUDY_PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+    } catch (e) {
+        console.error("Falha ao salvar o progresso de estudo no localStorage", e);
+    }
+}
+
+export function saveStudyProgress(planId: string, progress: PlanStudyProgress) {
+    saveAllProgress({ ...loadAllProgress(), [planId]: progress });
+}
+
+// Remove o progresso de um plano excluído.
+export function clearStudyProgress(planId: string) {
+    const { [planId]: _removed, ...others } = loadAllProgress();
+    saveAllProgress(others);
+}
+
+// Melhor nota (fração de acertos, de 0 a 1) obtida nos questionários de cada tópico.
+// `QuizAttempt.score` guarda o número de acertos, por isso é dividido pelo total de questões.
+export function bestQuizScores(attempts: QuizAttempt[]): Record<number, number> {
+    const best: Record<number, number> = {};
+    attempts.forEach(attempt => {
+        if (attempt.questions.length === 0) return;
+        const fraction = clampFraction(attempt.score / attempt.questions.length);
+        best[attempt.chapterIndex] = Math.max(best[attempt.chapterIndex] ?? 0, fraction);
+    });
+    return best;
+}
+
+export interface TopicSummary {
+    completion: number;
+    timeSpentMs: number;
+    // Média das melhores notas dos tópicos já testados; null se nenhum questionário foi feito.
+    quizScore: number | null;
+    listened: number;
+    readiness: number;
+}
+
+export interface ObjectiveSummary extends TopicSummary {
+    chapterIndex: number;
+    title: string;
+    topicCount: number;
+    masteredCount: number;
+}
+
+export interface StudyDashboard {
+    objectives: ObjectiveSummary[];
+    overall: TopicSummary;
+}
+
+const flattenChapter = (chapter: Chapter): Chapter[] => [chapter, ...(chapter.subChapters ?? []).flatMap(flattenChapter)];
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+function summarizeTopics(indices: number[], progress: PlanStudyProgress, quizScores: Record<number, number>, listened: Record<number, number>): TopicSummary {
+    const completion = average(indices.map(index => STATUS_COMPLETION[(progress[index] ?? NOT_STARTED).status]));
+    const tested = indices.filter(index => quizScores[index] !== undefined);
+    // Tópicos sem questionário contam como zero na prontidão: sem teste, não há evidência de domínio.
+    const quizForReadiness = average(indices.map(index => clampFraction(quizScores[index] ?? 0)));
+    const listenedAverage = average(indices.map(index => clampFraction(listened[index] ?? 0)));
+    return {
+        completion,
+        timeSpentMs: indices.reduce((sum, index) => sum + (progress[index]?.timeSpentMs ?? 0), 0),
+        quizScore: tested.length > 0 ? average(tested.map(index => quizScores[index])) : null,
+        listened: listenedAverage,
+        // Os pesos somam 1 e cada termo está entre 0 e 1; o limite protege contra dados antigos fora da escala.
+        readiness: clampFraction(completion * READINESS_WEIGHTS.completion + quizForReadiness * READINESS_WEIGHTS.quiz + listenedAverage * READINESS_WEIGHTS.listened),
+    };
+}
+
+// Consolida o progresso por tópico principal (com seus subtópicos) e no plano inteiro.
+export function buildStudyDashboard(doc: Documentation, progress: PlanStudyProgress, quizScores: Record<number, number>, listened: Record<number, number>): StudyDashboard {
+    let chapterIndex = 0;
+    const allIndices: number[] = [];
+    const objectives = doc.chapters.map(chapter => {
+        const indices = flattenChapter(chapter).map((_, offset) => chapterIndex + offset);
+        const objective: ObjectiveSummary = {
+            chapterIndex,
+            title: chapter.title,
+            topicCount: indices.length,
+            masteredCount: indices.filter(index => progress[index]?.status === 'mastered').length,
+            ...summarizeTopics(indices, progress, quizScores, listened),
+        };
+        allIndices.push(...indices);
+        chapterIndex += indices.length;
+        return objective;
+    });
+    return { objectives, overall: summarizeTopics(allIndices, progress, quizScores, listened) };
+}
+
+export function formatStudyTime(ms: number): string {
+    const totalMinutes = Math.round(ms / 60000);
+    if (totalMinutes < 60) return `${totalMinutes} min`;
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+}
@@ -0,0 +1,103 @@
+// utils/voiceProfiles.ts
+// Vozes disponíveis para a narração e perfis de voz (voz + velocidade) por plano e por idioma.
+// A voz usada em um plano é, nesta ordem: o perfil do próprio plano, o perfil do idioma do plano e a configuração padrão.
+
+import { Documentation, PlanLanguage, VoiceProfile } from '../types';
+
+const LANGUAGE_PROFILES_STORAGE_KEY = 'cortexVoiceProfiles';
+
+export const PLAYBACK_SPEEDS = [0.75, 1, 1.25, 1.5];
+
+export interface VoiceOption {
+    name: string;
+    description: string;
+}
+
+// Vozes pré-definidas do modelo de TTS do Gemini.
+export const AVAILABLE_VOICES: VoiceOption[] = [
+    { name: 'Kore', description: 'Firme' },
+    { name: 'Puck', description: 'Animada' },
+    { name: 'Charon', description: 'Informativa' },
+    { name: 'Fenrir', description: 'Empolgada' },
+    { name: 'Zephyr', description: 'Clara e viva' },
+    { name: 'Aoede', description: 'Leve' },
+    { name: 'Leda', description: 'Jovem' },
+    { name: 'Orus', description: 'Firme' },
+    { name: 'Callirrhoe', description: 'Tranquila' },
+    { name: 'Autonoe', description: 'Brilhante' },
+    { name: 'Enceladus', description: 'Suave, com respiração' },
+    { name: 'Iapetus', description: 'Nítida' },
+    { name: 'Umbriel', description: 'Descontraída' },
+    { name: 'Algieba', description: 'Macia' },
+    { name: 'Despina', description: 'Macia' },
+    { name: 'Erinome', description: 'Nítida' },
+    { name: 'Algenib', description: 'Rouca' },
+    { name: 'Rasalgethi', description: 'Informativa' },
+    { name: 'Laomedeia', description: 'Animada' },
+    { name: 'Achernar', description: 'Suave' },
+    { name: 'Alnilam', description: 'Firme' },
+    { name: 'Schedar', description: 'Equilibrada' },
+    { name: 'Gacrux', description: 'Madura' },
+    { name: 'Pulcherrima', description: 'Direta' },
+    { name: 'Achird', description: 'Amigável' },
+    { name: 'Zubenelgenubi', description: 'Casual' },
+    { name: 'Vindemiatrix', description: 'Gentil' },
+    { name: 'Sadachbia', description: 'Vivaz' },
+    { name: 'Sadaltager', description: 'Conhecedora' },
+    { name: 'Sulafat', description: 'Calorosa' },
+];
+
+export const LANGUAGE_LABELS: Record<PlanLanguage, string> = {
+    pt: 'português',
+    en: 'inglês',
+};
+
+// Frase curta usada na prévia das vozes. Como o texto é fixo, o áudio fica no cache depois da primeira prévia.
+export const VOICE_SAMPLE_TEXT: Record<PlanLanguage, string> = {
+    pt: 'Olá! Esta é uma prévia da voz que vai narrar o seu plano de estudo.',
+    en: 'Hello! This is a preview of the voice that will narrate your study plan.',
+};
+
+const STOPWORDS: Record<PlanLanguage, Set<string>> = {
+    pt: new Set(['de', 'que', 'não', 'para', 'com', 'uma', 'os', 'no', 'se', 'na', 'por', 'mais', 'as', 'dos', 'como', 'ao', 'das', 'à', 'são', 'você']),
+    en: new Set(['the', 'of', 'and', 'to', 'in', 'is', 'that', 'for', 'it', 'with', 'as', 'on', 'are', 'this', 'be', 'by', 'or', 'an', 'you', 'your']),
+};
+
+// Identifica o idioma do plano contando palavras muito frequentes de cada idioma no conteúdo.
+export function detectPlanLanguage(doc: Documentation): PlanLanguage {
+    const sample = [doc.title, ...doc.chapters.flatMap(chapter => [chapter.title, chapter.content])].join(' ').slice(0, 20000).toLowerCase();
+    const words = sample.match(/[a-zà-ú]+/g) ?? [];
+    const scores = { pt: 0, en: 0 };
+    words.forEach(word => {
+        if (STOPWORDS.pt.has(word)) scores.pt++;
+        if (STOPWORDS.en.has(word)) scores.en++;
+    });
+    return scores.en > scores.pt ? 'en' : 'pt';
+}
+
+export function loadLanguageVoiceProfiles(): Partial<Record<PlanLanguage, VoiceProfile>> {
+    try {
+        const saved = localStorage.getItem(LANGUAGE_PROFILES_STORAGE_KEY);
+        if (!saved) return {};
+        const parsed = JSON.parse(saved) as Record<string, VoiceProfile>;
+        const profiles: Partial<Record<PlanLanguage, VoiceProfile>> = {};
+        (Object.keys(LANGUAGE_LABELS) as PlanLanguage[]).forEach(language => {
+            const profile = parsed[language];
+            if (profile && typeof profile.voice === 'string' && typeof profile.speed === 'number') {
+                profiles[language] = profile;
+            }
+        });
+        return profiles;
+    } catch (e) {
+        console.error("Falha ao carregar os perfis de voz do localStorage", e);
+        return {};
+    }
+}
+
+export function saveLanguageVoiceProfiles(profiles: Partial<Record<PlanLanguage, VoiceProfile>>) {
+    try {
+        localStorage.setItem(LANGUAGE_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    } catch (e) {
+        console.error("Falha ao salvar os perfis de voz no localStorage", e);
+    }
+}
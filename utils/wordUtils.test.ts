@@ -0,0 +1,291 @@
+// Os arquivos de teste são montados aqui mesmo com escritores independentes dos nossos leitores
+// (o pacote cfb para o contêiner OLE e o zlib do Node para o ZIP), para exercitar os caminhos binários.
+
+import { deflateRawSync } from 'node:zlib';
+import * as CFB from 'cfb';
+import { JSDOM } from 'jsdom';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { convertDocToMarkdown, convertDocxToMarkdown } from './wordUtils';
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+// --- DOCX ---
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc ^= byte;
+        for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+function buildZip(files: Record<string, string>): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+    Object.entries(files).forEach(([name, content], index) => {
+        const nameBytes = encoder.encode(name);
+        const data = encoder.encode(content);
+        // Alterna entre armazenado e deflate para cobrir os dois métodos.
+        const method = index % 2 === 0 ? 8 : 0;
+        const stored = method === 8 ? new Uint8Array(deflateRawSync(data)) : data;
+
+        const local = new Uint8Array(30 + nameBytes.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint16(8, method, true);
+        localView.setUint32(14, crc32(data), true);
+        localView.setUint32(18, stored.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, nameBytes.length, true);
+        local.set(nameBytes, 30);
+
+        const central = new Uint8Array(46 + nameBytes.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint16(10, method, true);
+        centralView.setUint32(16, crc32(data), true);
+        centralView.setUint32(20, stored.length, true);
+        centralView.setUint32(24, data.length, true);
+        centralView.setUint16(28, nameBytes.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(nameBytes, 46);
+
+        localParts.push(local, stored);
+        centralParts.push(central);
+        offset += local.length + stored.length;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const eocd = new Uint8Array(22);
+    const eocdView = new DataView(eocd.buffer);
+    eocdView.setUint32(0, 0x06054b50, true);
+    eocdView.setUint16(8, centralParts.length, true);
+    eocdView.setUint16(10, centralParts.length, true);
+    eocdView.setUint32(12, centralSize, true);
+    eocdView.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, eocd];
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((position, part) => (result.set(part, position), position + part.length), 0);
+    return result.buffer;
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const docxParagraph = (text: string, pPr = '') => `<w:p><w:pPr>${pPr}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+const numPr = (numId: number, ilvl: number) => `<w:numPr><w:ilvl w:val="${ilvl}"/><w:numId w:val="${numId}"/></w:numPr>`;
+
+function buildDocx(body: string): ArrayBuffer {
+    return buildZip({
+        '[Content_Types].xml': '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>',
+        'word/document.xml': `<?xml version="1.0"?><w:document ${W}><w:body>${body}</w:body></w:document>`,
+        'word/styles.xml': `<?xml version="1.0"?><w:styles ${W}>
+            <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+        </w:styles>`,
+        'word/numbering.xml': `<?xml version="1.0"?><w:numbering ${W}>
+            <w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/></w:lvl></w:abstractNum>
+            <w:abstractNum w:abstractNumId="1"><w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl><w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl></w:abstractNum>
+            <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+            <w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>
+        </w:numbering>`,
+    });
+}
+
+describe('convertDocxToMarkdown', () => {
+    // O Node já tem Blob e DecompressionStream; do navegador, falta só o DOMParser.
+    beforeAll(() => {
+        globalThis.DOMParser = new JSDOM().window.DOMParser;
+    });
+
+    it('converte títulos, marcadores e listas numeradas', async () => {
+        const markdown = await convertDocxToMarkdown(buildDocx([
+            docxParagraph('Redes', '<w:pStyle w:val="Heading1"/>'),
+            docxParagraph('Introdução ao tema.'),
+            docxParagraph('Roteador', numPr(1, 0)),
+            docxParagraph('Switch', numPr(1, 0)),
+            docxParagraph('Configurar a interface', numPr(2, 0)),
+            docxParagraph('Endereço IP', numPr(2, 1)),
+            docxParagraph('Salvar a configuração', numPr(2, 0)),
+        ].join('')));
+
+        expect(markdown).toContain('# Redes');
+        expect(markdown).toContain('Introdução ao tema.');
+        expect(markdown).toContain('- Roteador\n- Switch');
+        expect(markdown).toContain('1. Configurar a interface\n  - Endereço IP\n1. Salvar a configuração');
+    });
+
+    it('rejeita um arquivo que não é ZIP', async () => {
+        await expect(convertDocxToMarkdown(new TextEncoder().encode('não é um docx').buffer)).rejects.toThrow();
+    });
+});
+
+// --- DOC (Word 97-2003) ---
+
+interface DocParagraph {
+    text: string;
+    // Índice do estilo; no fixture, o estilo 1 é "Título 1".
+    istd?: number;
+    ilfo?: number;
+    ilvl?: number;
+}
+
+interface DocList {
+    lsid: number;
+    // nfc de cada nível: 0 = decimal, 0x17 = marcador.
+    nfcs: number[];
+    startAt?: number;
+}
+
+class ByteWriter {
+    private bytes = new Uint8Array(0x2000);
+    private view = new DataView(this.bytes.buffer);
+    length = 0;
+
+    private ensure(size: number) {
+        if (this.length + size <= this.bytes.length) return;
+        const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size));
+        grown.set(this.bytes);
+        this.bytes = grown;
+        this.view = new DataView(grown.buffer);
+    }
+    u8(value: number) { this.ensure(1); this.view.setUint8(this.length, value); this.length += 1; return this; }
+    u16(value: number) { this.ensure(2); this.view.setUint16(this.length, value, true); this.length += 2; return this; }
+    u32(value: number) { this.ensure(4); this.view.setUint32(this.length, value >>> 0, true); this.length += 4; return this; }
+    raw(data: Uint8Array) { this.ensure(data.length); this.bytes.set(data, this.length); this.length += data.length; return this; }
+    zeros(count: number) { return this.raw(new Uint8Array(count)); }
+    result() { return this.bytes.slice(0, this.length); }
+}
+
+// Monta um .doc mínimo: FIB, texto em 8 bits em uma única peça, uma página FKP com as propriedades
+// de parágrafo, folha de estilos e as tabelas de listas (PlfLst/PlfLfo).
+function buildDoc(paragraphs: DocParagraph[], lists: DocList[] = []): ArrayBuffer {
+    const TEXT_OFFSET = 0x400;
+    const FKP_PAGE = 4;
+    const text = paragraphs.map(p => `${p.text}\r`).join('');
+    const textBytes = new Uint8Array(Buffer.from(text, 'latin1'));
+
+    // Página FKP: rgfc, rgbx (13 bytes cada) e as PAPX no fim da página.
+    const fkp = new Uint8Array(512);
+    const fkpView = new DataView(fkp.buffer);
+    let fc = TEXT_OFFSET;
+    let papxEnd = 511;
+    paragraphs.forEach((p, r) => {
+        fkpView.setUint32(r * 4, fc, true);
+        fc += p.text.length + 1;
+        const grpprl = new ByteWriter().u16(p.istd ?? 0);
+        if (p.ilfo) grpprl.u16(0x460b).u16(p.ilfo).u16(0x260a).u8(p.ilvl ?? 0);
+        const papx = new ByteWriter().u8(0).u8(Math.ceil(grpprl.length / 2)).raw(grpprl.result()).result();
+        papxEnd = (papxEnd - papx.length) & ~1;
+        fkp.set(papx, papxEnd);
+        fkp[(paragraphs.length + 1) * 4 + r * 13] = papxEnd / 2;
+    });
+    fkpView.setUint32(paragraphs.length * 4, fc, true);
+    fkp[511] = paragraphs.length;
+
+    const table = new ByteWriter();
+    const fib = new Map<number, [number, number]>();
+    const section = (fibOffset: number, write: () => void) => {
+        const start = table.length;
+        write();
+        fib.set(fibOffset, [start, table.length - start]);
+    };
+
+    // Folha de estilos: o Stshi contém só a contagem; cada STD só o sti (1 = "Título 1").
+    section(0xa2, () => {
+        table.u16(2).u16(2);
+        table.u16(2).u16(0);
+        table.u16(2).u16(1);
+    });
+    section(0x102, () => table.u32(TEXT_OFFSET).u32(fc).u32(FKP_PAGE));
+    section(0x1a2, () => table.u8(0x02).u32(4 * 2 + 8).u32(0).u32(textBytes.length).u16(0).u32((TEXT_OFFSET * 2) | 0x40000000).u16(0));
+    if (lists.length > 0) {
+        section(0x2e2, () => {
+            table.u16(lists.length);
+            lists.forEach(list => table.u32(list.lsid).u32(0).zeros(18).u8(list.nfcs.length === 1 ? 1 : 0).u8(0));
+        });
+        // Os LVLs ficam fora do lcbPlfLst: cada um com LVLF, propriedades vazias e o Xst do número.
+        lists.forEach(list => {
+            const levels = list.nfcs.length === 1 ? list.nfcs : Array.from({ length: 9 }, (_, i) => list.nfcs[i] ?? 0x17);
+            levels.forEach((nfc, level) => {
+                table.u32(list.startAt ?? 1).u8(nfc).zeros(19).u8(0).u8(3).u8(0).u8(0);
+                table.u16(0x260a).u8(level);
+                table.u16(2).u16(level).u16(0x2e);
+            });
+        });
+        section(0x2ea, () => {
+            table.u32(lists.length);
+            lists.forEach(list => table.u32(list.lsid).zeros(12));
+        });
+    }
+
+    const wordDocument = new Uint8Array(Math.max((FKP_PAGE + 1) * 512, 4608));
+    const wordView = new DataView(wordDocument.buffer);
+    wordView.setUint16(0, 0xa5ec, true);
+    wordView.setUint16(0x0a, 0x0200, true);
+    wordView.setUint32(0x4c, textBytes.length, true);
+    fib.forEach(([start, size], offset) => {
+        wordView.setUint32(offset, start, true);
+        wordView.setUint32(offset + 4, size, true);
+    });
+    wordDocument.set(textBytes, TEXT_OFFSET);
+    wordDocument.set(fkp, FKP_PAGE * 512);
+
+    const container = CFB.utils.cfb_new();
+    CFB.utils.cfb_add(container, '/WordDocument', wordDocument);
+    CFB.utils.cfb_add(container, '/1Table', table.result());
+    return toArrayBuffer(new Uint8Array(CFB.write(container, { type: 'buffer' })));
+}
+
+describe('convertDocToMarkdown', () => {
+    const lists: DocList[] = [
+        { lsid: 0x1001, nfcs: [0x17] },
+        { lsid: 0x2002, nfcs: [0, 0x17] },
+        { lsid: 0x3003, nfcs: [0, 4], startAt: 3 },
+    ];
+
+    it('converte títulos e texto corrido', () => {
+        const markdown = convertDocToMarkdown(buildDoc([
+            { text: 'Redes', istd: 1 },
+            { text: 'Introdução ao tema.' },
+        ]));
+        expect(markdown).toBe('# Redes\n\nIntrodução ao tema.');
+    });
+
+    it('mantém marcadores e a numeração das listas ordenadas', () => {
+        const markdown = convertDocToMarkdown(buildDoc([
+            { text: 'Roteador', ilfo: 1 },
+            { text: 'Switch', ilfo: 1 },
+            { text: 'Configurar a interface', ilfo: 2 },
+            { text: 'Endereço IP', ilfo: 2, ilvl: 1 },
+            { text: 'Salvar a configuração', ilfo: 2 },
+        ], lists));
+
+        expect(markdown).toContain('- Roteador\n- Switch');
+        expect(markdown).toContain('1. Configurar a interface\n  - Endereço IP\n2. Salvar a configuração');
+    });
+
+    it('continua a numeração após parágrafos fora da lista e reinicia os subníveis', () => {
+        const markdown = convertDocToMarkdown(buildDoc([
+            { text: 'Passo', ilfo: 3 },
+            { text: 'Subpasso', ilfo: 3, ilvl: 1 },
+            { text: 'Subpasso', ilfo: 3, ilvl: 1 },
+            { text: 'Observação entre os passos.' },
+            { text: 'Passo', ilfo: 3 },
+            { text: 'Subpasso', ilfo: 3, ilvl: 1 },
+        ], lists));
+
+        expect(markdown).toBe('3. Passo\n  3. Subpasso\n  4. Subpasso\n\nObservação entre os passos.\n\n4. Passo\n  3. Subpasso');
+    });
+
+    it('trata como marcador a lista sem definição na PlfLfo', () => {
+        expect(convertDocToMarkdown(buildDoc([{ text: 'Item', ilfo: 9 }], lists))).toBe('- Item');
+    });
+
+    it('rejeita arquivos que não são OLE', () => {
+        expect(() => convertDocToMarkdown(new TextEncoder().encode('não é um doc').buffer)).toThrow();
+    });
+});
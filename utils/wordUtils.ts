@@ -0,0 +1,655 @@
+// utils/wordUtils.ts
+// Converte documentos do Word (.docx e .doc) em Markdown, preservando títulos, listas, tabelas e trechos de código.
+
+import { readZipText } from './zipUtils';
+import { readCompoundFile } from './cfbUtils';
+import { renderTable, fenceCode, wrapInline } from './markdownUtils';
+
+type Block = { kind: 'text' | 'list' | 'code'; text: string };
+
+// Une os blocos em Markdown: itens de lista consecutivos ficam juntos e linhas de código viram um único bloco cercado.
+function joinBlocks(blocks: Block[]): string {
+    const merged: Block[] = [];
+    blocks.forEach(block => {
+        const last = merged[merged.length - 1];
+        if (last && last.kind === block.kind && block.kind !== 'text') {
+            last.text += `\n${block.text}`;
+        } else {
+            merged.push({ ...block });
+        }
+    });
+
+    return merged
+        .map(block => block.kind === 'code' ? fenceCode(block.text) : block.text)
+        .filter(text => text.trim().length > 0)
+        .join('\n\n');
+}
+
+// --- DOCX (Office Open XML) ---
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const MONOSPACE_FONT = /consolas|courier|mono|menlo|monaco|lucida console|cascadia|source code/i;
+const CODE_STYLE = /code|preformatted|c[oó]digo/i;
+
+interface DocxStyle {
+    name: string;
+    headingLevel: number | null;
+    isCode: boolean;
+    list: { numId: string; ilvl: number } | null;
+}
+
+interface DocxContext {
+    styles: Map<string, DocxStyle>;
+    orderedLists: Set<string>;
+    links: Map<string, string>;
+}
+
+interface RunSegment {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+    code: boolean;
+    href?: string;
+}
+
+const wChildren = (el: Element, localName?: string) =>
+    Array.from(el.children).filter(c => c.namespaceURI === W_NS && (!localName || c.localName === localName));
+const wChild = (el: Element | undefined, localName: string): Element | undefined =>
+    el ? wChildren(el, localName)[0] : undefined;
+const wVal = (el: Element | undefined, name = 'val') => el?.getAttributeNS(W_NS, name) ?? null;
+
+// Propriedades booleanas do Word (<w:b/>, <w:i w:val="0"/>) são verdadeiras quando presentes sem valor falso.
+const isOn = (el: Element | undefined) => !!el && !['0', 'false', 'off'].includes(wVal(el) ?? '');
+
+function parseXml(xml: string): Document {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+        throw new Error("O XML interno do documento Word está corrompido.");
+    }
+    return document;
+}
+
+function headingLevelFromName(name: string): number | null {
+    const match = name.match(/^heading\s*(\d)$/i);
+    if (match) return Math.min(6, Number(match[1]));
+    if (/^title$/i.test(name)) return 1;
+    if (/^subtitle$/i.test(name)) return 2;
+    return null;
+}
+
+function readNumPr(pPr: Element | undefined): DocxStyle['list'] {
+    const numPr = wChild(pPr, 'numPr');
+    const numId = wVal(wChild(numPr, 'numId'));
+    if (!numId || numId === '0') return null;
+    return { numId, ilvl: Number(wVal(wChild(numPr, 'ilvl')) ?? 0) };
+}
+
+function readOutlineLevel(pPr: Element | undefined): number | null {
+    const outline = wVal(wChild(pPr, 'outlineLvl'));
+    if (outline === null) return null;
+    const level = Number(outline);
+    // O nível 9 significa "corpo de texto".
+    return level >= 0 && level < 9 ? Math.min(6, level + 1) : null;
+}
+
+function parseStyles(xml: string | undefined): Map<string, DocxStyle> {
+    const styles = new Map<string, DocxStyle>();
+    if (!xml) return styles;
+
+    const raw = new Map<string, { name: string; basedOn: string | null; pPr?: Element; rPr?: Element }>();
+    Array.from(parseXml(xml).getElementsByTagNameNS(W_NS, 'style')).forEach(style => {
+        const id = wVal(style, 'styleId');
+        if (!id) return;
+        raw.set(id, {
+            name: wVal(wChild(style, 'name')) ?? id,
+            basedOn: wVal(wChild(style, 'basedOn')),
+            pPr: wChild(style, 'pPr'),
+            rPr: wChild(style, 'rPr'),
+        });
+    });
+
+    // Resolve as propriedades herdadas através da cadeia "basedOn".
+    const resolve = (id: string, depth = 0): DocxStyle => {
+        const cached = styles.get(id);
+        if (cached) return cached;
+        const style = raw.get(id);
+        if (!style) return { name: id, headingLevel: null, isCode: false, list: null };
+        const parent = style.basedOn && depth < 20 ? resolve(style.basedOn, depth + 1) : null;
+        const font = wVal(wChild(style.rPr, 'rFonts'), 'ascii') ?? '';
+        const resolved: DocxStyle = {
+            name: style.name,
+            headingLevel: headingLevelFromName(style.name) ?? readOutlineLevel(style.pPr) ?? parent?.headingLevel ?? null,
+            isCode: CODE_STYLE.test(style.name) || MONOSPACE_FONT.test(font) || !!parent?.isCode,
+            list: readNumPr(style.pPr) ?? parent?.list ?? null,
+        };
+        styles.set(id, resolved);
+        return resolved;
+    };
+    raw.forEach((_, id) => resolve(id));
+    return styles;
+}
+
+// Retorna o conjunto de chaves "numId:nível" cujas listas são numeradas (as demais são marcadores).
+function parseNumbering(xml: string | undefined): Set<string> {
+    const ordered = new Set<string>();
+    if (!xml) return ordered;
+
+    const document = parseXml(xml);
+    const abstractFormats = new Map<string, Map<number, string>>();
+    Array.from(document.getElementsByTagNameNS(W_NS, 'abstractNum')).forEach(abstractNum => {
+        const levels = new Map<number, string>();
+        wChildren(abstractNum, 'lvl').forEach(lvl => {
+            levels.set(Number(wVal(lvl, 'ilvl') ?? 0), wVal(wChild(lvl, 'numFmt')) ?? 'bullet');
+        });
+        abstractFormats.set(wVal(abstractNum, 'abstractNumId') ?? '', levels);
+    });
+
+    Array.from(document.getElementsByTagNameNS(W_NS, 'num')).forEach(num => {
+        const numId = wVal(num, 'numId');
+        const levels = abstractFormats.get(wVal(wChild(num, 'abstractNumId')) ?? '');
+        levels?.forEach((format, ilvl) => {
+            if (format !== 'bullet' && format !== 'none') {
+                ordered.add(`${numId}:${ilvl}`);
+            }
+        });
+    });
+    return ordered;
+}
+
+function parseRelationships(xml: string | undefined): Map<string, string> {
+    const links = new Map<string, string>();
+    if (!xml) return links;
+    Array.from(parseXml(xml).getElementsByTagName('Relationship')).forEach(rel => {
+        const id = rel.getAttribute('Id');
+        const target = rel.getAttribute('Target');
+        if (id && target && /hyperlink$/.test(rel.getAttribute('Type') ?? '')) {
+            links.set(id, target);
+        }
+    });
+    return links;
+}
+
+function collectRuns(container: Element, context: DocxContext, href?: string, segments: RunSegment[] = []): RunSegment[] {
+    wChildren(container).forEach(node => {
+        switch (node.localName) {
+            case 'r': {
+                const rPr = wChild(node, 'rPr');
+                const runStyle = wVal(wChild(rPr, 'rStyle')) ?? '';
+                const font = wVal(wChild(rPr, 'rFonts'), 'ascii') ?? '';
+                let text = '';
+                wChildren(node).forEach(part => {
+                    if (part.localName === 't') text += part.textContent ?? '';
+                    else if (part.localName === 'tab') text += '\t';
+                    else if (part.localName === 'br' || part.localName === 'cr') text += '\n';
+                    else if (part.localName === 'noBreakHyphen') text += '-';
+                });
+                if (text) {
+                    segments.push({
+                        text,
+                        bold: isOn(wChild(rPr, 'b')),
+                        italic: isOn(wChild(rPr, 'i')),
+                        code: MONOSPACE_FONT.test(font) || CODE_STYLE.test(runStyle),
+                        href,
+                    });
+                }
+                break;
+            }
+            case 'hyperlink': {
+                const id = node.getAttributeNS(R_NS, 'id');
+                const anchor = wVal(node, 'anchor');
+                collectRuns(node, context, (id && context.links.get(id)) || (anchor ? `#${anchor}` : undefined), segments);
+                break;
+            }
+            case 'ins':
+            case 'smartTag':
+            case 'fldSimple':
+            case 'customXml':
+                collectRuns(node, context, href, segments);
+                break;
+            case 'sdt': {
+                const content = wChild(node, 'sdtContent');
+                if (content) collectRuns(content, context, href, segments);
+                break;
+            }
+        }
+    });
+    return segments;
+}
+
+function renderSegments(segments: RunSegment[]): string {
+    const merged: RunSegment[] = [];
+    segments.forEach(segment => {
+        const last = merged[merged.length - 1];
+        if (last && last.bold === segment.bold && last.italic === segment.italic && last.code === segment.code && last.href === segment.href) {
+            last.text += segment.text;
+        } else {
+            merged.push({ ...segment });
+        }
+    });
+
+    const rendered = merged.map(segment => {
+        let text = segment.text;
+        if (segment.code) {
+            text = wrapInline(text, text.includes('`') ? '``' : '`');
+        } else {
+            if (segment.bold) text = wrapInline(text, '**');
+            if (segment.italic) text = wrapInline(text, '*');
+        }
+        return { text, href: segment.href };
+    });
+
+    // Runs consecutivos com o mesmo link formam um único link Markdown.
+    let output = '';
+    for (let i = 0; i < rendered.length; i++) {
+        const href = rendered[i].href;
+        if (!href) {
+            output += rendered[i].text;
+            continue;
+        }
+        let label = '';
+        while (i < rendered.length && rendered[i].href === href) {
+            label += rendered[i].text;
+            i++;
+        }
+        i--;
+        output += `[${label.trim()}](${href})`;
+    }
+    return output;
+}
+
+function convertParagraph(p: Element, context: DocxContext): Block | null {
+    const pPr = wChild(p, 'pPr');
+    const style = context.styles.get(wVal(wChild(pPr, 'pStyle')) ?? '');
+    const segments = collectRuns(p, context);
+    const plainText = segments.map(s => s.text).join('');
+
+    const isCode = style?.isCode || (segments.length > 0 && plainText.trim().length > 0 && segments.every(s => s.code || !s.text.trim()));
+    if (isCode) {
+        return { kind: 'code', text: plainText.replace(/\s+$/, '') };
+    }
+
+    const text = renderSegments(segments).trim();
+    if (!text) return null;
+
+    const headingLevel = readOutlineLevel(pPr) ?? style?.headingLevel ?? null;
+    if (headingLevel) {
+        return { kind: 'text', text: `${'#'.repeat(headingLevel)} ${text.replace(/\n/g, ' ')}` };
+    }
+
+    const list = readNumPr(pPr) ?? style?.list ?? null;
+    const isStyleList = style && /^list (bullet|number)/i.test(style.name);
+    if (list || isStyleList) {
+        const ilvl = list?.ilvl ?? 0;
+        const ordered = list ? context.orderedLists.has(`${list.numId}:${ilvl}`) : /number/i.test(style!.name);
+        return { kind: 'list', text: `${'  '.repeat(ilvl)}${ordered ? '1.' : '-'} ${text.replace(/\n/g, ' ')}` };
+    }
+
+    return { kind: 'text', text: text.replace(/\n/g, '  \n') };
+}
+
+function convertTable(tbl: Element, context: DocxContext): Block {
+    const rows = wChildren(tbl, 'tr').map(tr => {
+        const cells: string[] = [];
+        wChildren(tr, 'tc').forEach(tc => {
+            const content = convertBody(tc, context).map(block => block.text).join('\n');
+            cells.push(content);
+            const span = Number(wVal(wChild(wChild(tc, 'tcPr'), 'gridSpan')) ?? 1);
+            for (let i = 1; i < span; i++) cells.push('');
+        });
+        return cells;
+    });
+    return { kind: 'text', text: renderTable(rows) };
+}
+
+function convertBody(container: Element, context: DocxContext): Block[] {
+    const blocks: Block[] = [];
+    wChildren(container).forEach(node => {
+        if (node.localName === 'p') {
+            const block = convertParagraph(node, context);
+            if (block) blocks.push(block);
+        } else if (node.localName === 'tbl') {
+            blocks.push(convertTable(node, context));
+        } else if (node.localName === 'sdt') {
+            const content = wChild(node, 'sdtContent');
+            if (content) blocks.push(...convertBody(content, context));
+        }
+    });
+    return blocks;
+}
+
+export async function convertDocxToMarkdown(data: ArrayBuffer): Promise<string> {
+    const documentXml = await readZipText(data, 'word/document.xml');
+    if (!documentXml) {
+        throw new Error("O arquivo não parece ser um documento .docx válido.");
+    }
+
+    const [stylesXml, numberingXml, relsXml] = await Promise.all([
+        readZipText(data, 'word/styles.xml'),
+        readZipText(data, 'word/numbering.xml'),
+        readZipText(data, 'word/_rels/document.xml.rels'),
+    ]);
+
+    const context: DocxContext = {
+        styles: parseStyles(stylesXml),
+        orderedLists: parseNumbering(numberingXml),
+        links: parseRelationships(relsXml),
+    };
+
+    const body = parseXml(documentXml).getElementsByTagNameNS(W_NS, 'body')[0];
+    if (!body) return '';
+    return joinBlocks(convertBody(body, context));
+}
+
+// --- DOC (Word 97-2003, formato binário) ---
+
+interface Piece {
+    cpStart: number;
+    cpEnd: number;
+    fc: number;
+    compressed: boolean;
+}
+
+interface ParagraphRun {
+    fcStart: number;
+    fcEnd: number;
+    istd: number;
+    // Índice (a partir de 1) da lista na PlfLfo; 0 quando o parágrafo não é item de lista.
+    ilfo: number;
+    listLevel: number;
+}
+
+interface ListLevelFormat {
+    startAt: number;
+    ordered: boolean;
+}
+
+const SPRM_P_ILVL = 0x260a;
+const SPRM_P_ILFO = 0x460b;
+// Formatos de numeração (nfc) que não geram números: marcador e nenhum.
+const NFC_BULLET = 0x17;
+const NFC_NONE = 0xff;
+const LSTF_SIZE = 28;
+const LVLF_SIZE = 28;
+const LFO_SIZE = 16;
+
+// Lê a tabela de peças (Clx), que mapeia as posições de caractere para o texto armazenado no stream WordDocument.
+function parsePieceTable(table: DataView, fcClx: number, lcbClx: number): Piece[] {
+    let offset = fcClx;
+    const end = fcClx + lcbClx;
+    while (offset < end && table.getUint8(offset) === 0x01) {
+        offset += 3 + table.getInt16(offset + 1, true);
+    }
+    if (table.getUint8(offset) !== 0x02) {
+        throw new Error("Tabela de peças do documento .doc não encontrada.");
+    }
+    const lcb = table.getUint32(offset + 1, true);
+    const plcStart = offset + 5;
+    const count = (lcb - 4) / 12;
+    const pieces: Piece[] = [];
+    for (let i = 0; i < count; i++) {
+        const rawFc = table.getUint32(plcStart + (count + 1) * 4 + i * 8 + 2, true);
+        const compressed = (rawFc & 0x40000000) !== 0;
+        pieces.push({
+            cpStart: table.getUint32(plcStart + i * 4, true),
+            cpEnd: table.getUint32(plcStart + (i + 1) * 4, true),
+            fc: compressed ? (rawFc & 0x3fffffff) / 2 : rawFc,
+            compressed,
+        });
+    }
+    return pieces;
+}
+
+// Percorre uma lista de sprms procurando as propriedades de lista do parágrafo.
+function readListSprms(view: DataView, start: number, end: number): { ilfo: number; listLevel: number } {
+    let ilfo = 0;
+    let listLevel = 0;
+    let offset = start;
+    while (offset + 2 <= end) {
+        const sprm = view.getUint16(offset, true);
+        offset += 2;
+        let size: number;
+        switch (sprm >> 13) {
+            case 0: case 1: size = 1; break;
+            case 2: case 4: case 5: size = 2; break;
+            case 3: size = 4; break;
+            case 7: size = 3; break;
+            default:
+                if (offset >= end) return { ilfo, listLevel };
+                size = 1 + view.getUint8(offset);
+        }
+        if (offset + size > end) break;
+        if (sprm === SPRM_P_ILFO) ilfo = view.getUint16(offset, true);
+        if (sprm === SPRM_P_ILVL) listLevel = view.getUint8(offset);
+        offset += size;
+    }
+    return { ilfo, listLevel };
+}
+
+// Lê as propriedades de parágrafo (estilo e lista) das páginas FKP referenciadas pela PlcBtePapx.
+function parseParagraphRuns(wordDocument: DataView, table: DataView, fcPlcf: number, lcbPlcf: number): ParagraphRun[] {
+    const runs: ParagraphRun[] = [];
+    const count = (lcbPlcf - 4) / 8;
+    for (let i = 0; i < count; i++) {
+        const pageNumber = table.getUint32(fcPlcf + (count + 1) * 4 + i * 4, true) & 0x3fffff;
+        const page = pageNumber * 512;
+        if (page + 512 > wordDocument.byteLength) continue;
+        const crun = wordDocument.getUint8(page + 511);
+        for (let r = 0; r < crun; r++) {
+            const run: ParagraphRun = {
+                fcStart: wordDocument.getUint32(page + r * 4, true),
+                fcEnd: wordDocument.getUint32(page + (r + 1) * 4, true),
+                istd: 0,
+                ilfo: 0,
+                listLevel: 0,
+            };
+            const bOffset = wordDocument.getUint8(page + (crun + 1) * 4 + r * 13);
+            if (bOffset !== 0) {
+                const papx = page + bOffset * 2;
+                const cb = wordDocument.getUint8(papx);
+                const grpprl = cb === 0 ? papx + 2 : papx + 1;
+                const length = cb === 0 ? wordDocument.getUint8(papx + 1) * 2 : cb * 2 - 1;
+                run.istd = wordDocument.getUint16(grpprl, true);
+                Object.assign(run, readListSprms(wordDocument, grpprl + 2, grpprl + length));
+            }
+            runs.push(run);
+        }
+    }
+    return runs;
+}
+
+// Mapeia cada índice de estilo (istd) para o nível de título correspondente, usando o identificador
+// de estilo interno (sti): os valores de 1 a 9 são os estilos "Título 1" a "Título 9".
+function parseHeadingStyles(table: DataView, fcStshf: number, lcbStshf: number): Map<number, number> {
+    const headings = new Map<number, number>();
+    if (lcbStshf < 4) return headings;
+    const cbStshi = table.getUint16(fcStshf, true);
+    const styleCount = table.getUint16(fcStshf + 2, true);
+    let offset = fcStshf + 2 + cbStshi;
+    const end = fcStshf + lcbStshf;
+    for (let istd = 0; istd < styleCount && offset + 2 <= end; istd++) {
+        const cbStd = table.getUint16(offset, true);
+        if (cbStd >= 2) {
+            const sti = table.getUint16(offset + 2, true) & 0x0fff;
+            if (sti >= 1 && sti <= 9) headings.set(istd, Math.min(6, sti));
+        }
+        offset += 2 + cbStd;
+    }
+    return headings;
+}
+
+// Lê as definições de lista (PlfLst) e as associa a cada ilfo (PlfLfo), com o formato de cada nível.
+function parseListFormats(table: DataView, fcPlfLst: number, lcbPlfLst: number, fcPlfLfo: number, lcbPlfLfo: number): Map<number, ListLevelFormat[]> {
+    const formats = new Map<number, ListLevelFormat[]>();
+    if (lcbPlfLst < 2 || lcbPlfLfo < 4) return formats;
+
+    // Os LVLs de todas as listas vêm logo após as LSTFs, na mesma ordem: 1 nível nas listas simples, 9 nas demais.
+    const listCount = table.getInt16(fcPlfLst, true);
+    const levelsByLsid = new Map<number, ListLevelFormat[]>();
+    let offset = fcPlfLst + 2 + listCount * LSTF_SIZE;
+    for (let i = 0; i < listCount; i++) {
+        const lstf = fcPlfLst + 2 + i * LSTF_SIZE;
+        const levelCount = table.getUint8(lstf + 26) & 0x01 ? 1 : 9;
+        const levels: ListLevelFormat[] = [];
+        for (let level = 0; level < levelCount && offset + LVLF_SIZE <= table.byteLength; level++) {
+            const nfc = table.getUint8(offset + 4);
+            levels.push({ startAt: table.getInt32(offset, true), ordered: nfc !== NFC_BULLET && nfc !== NFC_NONE });
+            // Após a LVLF vêm as propriedades de parágrafo e de caractere do nível e o texto do número (Xst).
+            offset += LVLF_SIZE + table.getUint8(offset + 24) + table.getUint8(offset + 25);
+            offset += 2 + table.getUint16(offset, true) * 2;
+        }
+        levelsByLsid.set(table.getInt32(lstf, true), levels);
+    }
+
+    const lfoCount = table.getInt32(fcPlfLfo, true);
+    for (let i = 0; i < lfoCount; i++) {
+        const levels = levelsByLsid.get(table.getInt32(fcPlfLfo + 4 + i * LFO_SIZE, true));
+        if (levels) formats.set(i + 1, levels);
+    }
+    return formats;
+}
+
+export function convertDocToMarkdown(data: ArrayBuffer): string {
+    const streams = readCompoundFile(data);
+    const wordDocumentBytes = streams.get('WordDocument');
+    if (!wordDocumentBytes) {
+        throw new Error("O arquivo não contém o stream WordDocument de um documento .doc.");
+    }
+    const wordDocument = new DataView(wordDocumentBytes.buffer, wordDocumentBytes.byteOffset, wordDocumentBytes.byteLength);
+    if (wordDocument.getUint16(0, true) !== 0xa5ec) {
+        throw new Error("Versão do documento .doc não suportada (apenas Word 97 ou posterior).");
+    }
+    const flags = wordDocument.getUint16(0x0a, true);
+    if (flags & 0x0100) {
+        throw new Error("Documentos .doc protegidos por senha não são suportados.");
+    }
+
+    const tableBytes = streams.get(flags & 0x0200 ? '1Table' : '0Table');
+    if (!tableBytes) {
+        throw new Error("O stream de tabelas do documento .doc não foi encontrado.");
+    }
+    const table = new DataView(tableBytes.buffer, tableBytes.byteOffset, tableBytes.byteLength);
+
+    const ccpText = wordDocument.getUint32(0x4c, true);
+    const pieces = parsePieceTable(table, wordDocument.getUint32(0x1a2, true), wordDocument.getUint32(0x1a6, true));
+    const paragraphRuns = parseParagraphRuns(wordDocument, table, wordDocument.getUint32(0x102, true), wordDocument.getUint32(0x106, true));
+    const headingStyles = parseHeadingStyles(table, wordDocument.getUint32(0xa2, true), wordDocument.getUint32(0xa6, true));
+    const listFormats = parseListFormats(
+        table,
+        wordDocument.getUint32(0x2e2, true), wordDocument.getUint32(0x2e6, true),
+        wordDocument.getUint32(0x2ea, true), wordDocument.getUint32(0x2ee, true),
+    );
+    const findRun = (fc: number) => paragraphRuns.find(run => fc >= run.fcStart && fc < run.fcEnd);
+
+    const ansiDecoder = new TextDecoder('windows-1252');
+    const unicodeDecoder = new TextDecoder('utf-16le');
+
+    const blocks: Block[] = [];
+    let rows: string[][] = [];
+    let currentRow: string[] = [];
+    let cellParagraphs: string[] = [];
+    let lastWasCellEnd = false;
+    // Pilha de campos abertos: true enquanto estamos no código do campo (antes do separador).
+    const fieldStack: boolean[] = [];
+    let paragraph = '';
+    // Próximo número de cada nível, por lista. Como no Word, a contagem continua após parágrafos fora da lista.
+    const listCounters = new Map<number, number[]>();
+
+    const nextListNumber = (ilfo: number, level: number, format: ListLevelFormat) => {
+        const counters = listCounters.get(ilfo) ?? [];
+        counters.length = Math.min(counters.length, level + 1);
+        const number = counters[level] ?? format.startAt;
+        counters[level] = number + 1;
+        listCounters.set(ilfo, counters);
+        return number;
+    };
+
+    const flushTable = () => {
+        if (currentRow.length > 0) rows.push(currentRow);
+        if (rows.length > 0) blocks.push({ kind: 'text', text: renderTable(rows) });
+        rows = [];
+        currentRow = [];
+    };
+
+    // Nos arquivos .doc, a última marca de parágrafo de cada célula é \x07 e uma marca \x07 extra encerra a linha.
+    const endParagraph = (terminator: string, fc: number) => {
+        const text = paragraph.replace(/\s+$/, '');
+        paragraph = '';
+
+        if (terminator === '\x07') {
+            if (!text && lastWasCellEnd) {
+                rows.push(currentRow);
+                currentRow = [];
+                lastWasCellEnd = false;
+            } else {
+                currentRow.push([...cellParagraphs, text].join('\n'));
+                cellParagraphs = [];
+                lastWasCellEnd = true;
+            }
+            return;
+        }
+        lastWasCellEnd = false;
+
+        if (currentRow.length > 0) {
+            cellParagraphs.push(text);
+            return;
+        }
+        flushTable();
+        if (!text.trim()) return;
+
+        const run = findRun(fc);
+        const headingLevel = run ? headingStyles.get(run.istd) : undefined;
+        if (headingLevel) {
+            blocks.push({ kind: 'text', text: `${'#'.repeat(headingLevel)} ${text.trim()}` });
+        } else if (run?.ilfo) {
+            const format = listFormats.get(run.ilfo)?.[run.listLevel];
+            const marker = format?.ordered ? `${nextListNumber(run.ilfo, run.listLevel, format)}.` : '-';
+            blocks.push({ kind: 'list', text: `${'  '.repeat(run.listLevel)}${marker} ${text.trim()}` });
+        } else {
+            blocks.push({ kind: 'text', text });
+        }
+    };
+
+    for (const piece of pieces) {
+        if (piece.cpStart >= ccpText) break;
+        const length = Math.min(piece.cpEnd, ccpText) - piece.cpStart;
+        const bytesPerChar = piece.compressed ? 1 : 2;
+        const raw = wordDocumentBytes.subarray(piece.fc, piece.fc + length * bytesPerChar);
+        const text = (piece.compressed ? ansiDecoder : unicodeDecoder).decode(raw);
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            const fc = piece.fc + i * bytesPerChar;
+            if (char === '\x13') { fieldStack.push(true); continue; }
+            if (char === '\x14') { if (fieldStack.length) fieldStack[fieldStack.length - 1] = false; continue; }
+            if (char === '\x15') { fieldStack.pop(); continue; }
+            if (fieldStack.includes(true)) continue;
+
+            switch (char) {
+                case '\r':
+                case '\x07':
+                    endParagraph(char, fc);
+                    break;
+                case '\x0c':
+                    endParagraph('\r', fc);
+                    break;
+                case '\x0b':
+                    paragraph += '\n';
+                    break;
+                case '\x1e':
+                    paragraph += '-';
+                    break;
+                case '\x1f':
+                case '\x01':
+                case '\x08':
+                    break;
+                default:
+                    paragraph += char;
+            }
+        }
+    }
+    if (paragraph) endParagraph('\r', -1);
+    flushTable();
+
+    return joinBlocks(blocks);
+}
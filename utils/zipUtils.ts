@@ -0,0 +1,85 @@
+// utils/zipUtils.ts
+// Leitor mínimo de arquivos ZIP (usado para .docx), baseado no DecompressionStream nativo do navegador.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+export interface ZipEntry {
+    name: string;
+    compressionMethod: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Localiza o registro "End of Central Directory", que fica nos últimos bytes do arquivo
+// (seguido de um comentário opcional de até 64 KB).
+function findEndOfCentralDirectory(view: DataView): number {
+    const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+    for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+        if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+            return offset;
+        }
+    }
+    throw new Error("Arquivo ZIP inválido ou corrompido.");
+}
+
+export function listZipEntries(data: ArrayBuffer): ZipEntry[] {
+    const view = new DataView(data);
+    const bytes = new Uint8Array(data);
+    const decoder = new TextDecoder();
+    const eocdOffset = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(eocdOffset + 10, true);
+    let offset = view.getUint32(eocdOffset + 16, true);
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error("Diretório central do ZIP corrompido.");
+        }
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        entries.push({
+            compressionMethod: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localHeaderOffset: view.getUint32(offset + 42, true),
+            name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+// Lê e descompacta uma entrada do ZIP. Retorna undefined se a entrada não existir.
+export async function readZipEntry(data: ArrayBuffer, name: string): Promise<Uint8Array | undefined> {
+    const entry = listZipEntries(data).find(e => e.name === name);
+    if (!entry) return undefined;
+
+    const view = new DataView(data);
+    const offset = entry.localHeaderOffset;
+    if (view.getUint32(offset, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Cabeçalho local inválido para ${name}.`);
+    }
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    const compressed = new Uint8Array(data, dataStart, entry.compressedSize);
+
+    switch (entry.compressionMethod) {
+        case 0:
+            return compressed.slice();
+        case 8:
+            return inflateRaw(compressed);
+        default:
+            throw new Error(`Método de compressão ZIP não suportado (${entry.compressionMethod}).`);
+    }
+}
+
+export async function readZipText(data: ArrayBuffer, name: string): Promise<string | undefined> {
+    const bytes = await readZipEntry(data, name);
+    return bytes ? new TextDecoder().decode(bytes) : undefined;
+}